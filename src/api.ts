@@ -0,0 +1,44 @@
+// Library entry point: everything the CLI does, importable without spawning it.
+export { downloadPlaylist, type DownloadPlaylistOptions } from './services/pipeline/download.js';
+export { syncPlaylist, type SyncPlaylistOptions, type RemovedTrackAction } from './services/pipeline/sync.js';
+export { downloadPlaylists, syncPlaylists, readBatchFile, type BatchOptions } from './services/pipeline/batch.js';
+export { retryFailed, type RetryFailedOptions } from './services/pipeline/retry.js';
+export { planPlaylist, type PlanOptions } from './services/pipeline/plan.js';
+export { verifyDownload, type VerifyDownloadOptions } from './services/pipeline/verify.js';
+export { verifyAudioFile, type VerifyExpectations } from './services/verify/verify.js';
+export { DEFAULT_RETRY_POLICIES, FAILURE_KINDS, parseRetryPolicy, type RetryPolicy, type RetryPolicies } from './services/downloader/errors.js';
+export { FAILED_REPORT_FILENAME, readFailedReport } from './services/report/failedReport.js';
+export { DEFAULT_LOUDNESS_TARGET, LOUDNESS_CACHE_FILENAME } from './services/loudness/loudness.js';
+export { parseCueSheet, parseTimestamps, readSplitFile } from './services/splitter/splitter.js';
+export { formatBytes, parseSize } from './services/storage/diskSpace.js';
+export { ARCHIVE_FORMATS } from './services/zipper/zipper.js';
+export { createDownloadEvents, type DownloadEvents, type DownloadEventMap } from './services/pipeline/events.js';
+export type { PipelineOptions } from './services/pipeline/common.js';
+export { parseQuality } from './services/downloader/quality.js';
+export { AUDIO_FORMAT_NAMES } from './services/downloader/formats.js';
+export { DEFAULT_FILENAME_TEMPLATE, DEFAULT_FOLDER_TEMPLATE, TEMPLATE_PLACEHOLDERS } from './utils/template.js';
+export type {
+  ArchiveFormat,
+  AudioFormat,
+  AudioQuality,
+  BatchItemResult,
+  Chapter,
+  DownloadResult,
+  FailedPlaylist,
+  FailedReport,
+  FailureKind,
+  LoudnessMeasurement,
+  LoudnessMode,
+  PlannedTrack,
+  Playlist,
+  PlaylistPlan,
+  ProgressEvent,
+  Song,
+  SongFailure,
+  SongResult,
+  SpaceNeed,
+  SyncResult,
+  TrackTags,
+  VerifyIssue,
+  VerifyReport,
+} from './types/index.js';
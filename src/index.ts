@@ -1,17 +1,45 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
-import ora from 'ora';
-import path from 'path';
+import { Command, Option } from 'commander';
+import ora, { type Ora } from 'ora';
 import fs from 'fs';
+import path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
-import { validateAndExtractId, fetchPlaylistMetadata } from './services/youtube/fetcher.js';
-import { downloadSongs } from './services/downloader/downloader.js';
-import { addMetadataToFiles } from './services/metadata/tagger.js';
-import { createZip, getDirectorySize } from './services/zipper/zipper.js';
-import { logger } from './utils/logger.js';
-import type { DownloadProgress } from './types/index.js';
+import { downloadPlaylist } from './services/pipeline/download.js';
+import { syncPlaylist, type RemovedTrackAction } from './services/pipeline/sync.js';
+import { downloadPlaylists, readBatchFile, syncPlaylists, type BatchOptions } from './services/pipeline/batch.js';
+import { retryFailed } from './services/pipeline/retry.js';
+import { planPlaylist, type PlanOptions } from './services/pipeline/plan.js';
+import { verifyDownload } from './services/pipeline/verify.js';
+import { createDownloadEvents, type DownloadEvents } from './services/pipeline/events.js';
+import type { PipelineOptions } from './services/pipeline/common.js';
+import { createJobManager } from './services/server/jobs.js';
+import { createJobServer } from './services/server/server.js';
+import { AUDIO_FORMAT_NAMES } from './services/downloader/formats.js';
+import { parseQuality } from './services/downloader/quality.js';
+import { FAILURE_KINDS, parseRetryPolicy, type RetryPolicies } from './services/downloader/errors.js';
+import { readFailedReport } from './services/report/failedReport.js';
+import { parseDuration } from './services/playlist/selection.js';
+import { formatBytes, parseSize } from './services/storage/diskSpace.js';
+import { ARCHIVE_FORMATS } from './services/zipper/zipper.js';
+import { createLogger, type LogLevel } from './utils/logger.js';
+import { writeEvent } from './utils/events.js';
+import { pickItems } from './utils/picker.js';
+import { ConfigError, findConfigFiles, readConfigFile, resolveSettings, type ConfigValue } from './utils/config.js';
+import { DEFAULT_FILENAME_TEMPLATE, DEFAULT_FOLDER_TEMPLATE, validateTemplate } from './utils/template.js';
+import type {
+  ArchiveFormat,
+  AudioFormat,
+  AudioQuality,
+  BatchItemResult,
+  FailureKind,
+  LoudnessMode,
+  PlaylistPlan,
+  ProgressEvent,
+  SkippedSong,
+  Song,
+} from './types/index.js';
 
 // Get __dirname equivalent in ESM
 const __filename = fileURLToPath(import.meta.url);
@@ -21,154 +49,1095 @@ const program = new Command();
 
 program
   .name('yt-playlist-downloader')
-  .description('Download YouTube Music playlists/albums as high-quality MP3s')
-  .version('1.0.0');
+  .description('Download YouTube Music playlists/albums as high-quality audio files')
+  .version('1.0.0')
+  .enablePositionalOptions();
 
-program
-  .argument('<url>', 'YouTube Music playlist or album URL')
-  .option('-o, --output <dir>', 'Output directory for downloads', path.join(process.cwd(), 'downloads'))
-  .option('--temp-dir <dir>', 'Temporary directory for processing (use different dirs for parallel downloads)', path.join(process.cwd(), '.temp'))
-  .option('-c, --concurrency <number>', 'Number of concurrent downloads', '5')
-  .option('--cookies <file>', 'Path to cookies.txt file for private/age-restricted content')
-  .option('--no-zip', 'Skip creating ZIP archive')
-  .option('--no-metadata', 'Skip adding metadata tags')
-  .action(async (url: string, options) => {
-    const spinner = ora('Initializing...').start();
-    logger.setSpinner(spinner);
+// Collects a repeatable option into an array
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
 
-    try {
-      // Step 1: Validate URL and extract playlist ID
-      spinner.text = 'Validating URL...';
-      const playlistId = await validateAndExtractId(url);
-      spinner.succeed(`Valid playlist ID: ${playlistId}`);
-
-      // Step 2: Fetch playlist metadata
-      spinner.start('Fetching playlist metadata...');
-      const playlist = await fetchPlaylistMetadata(playlistId, options.cookies);
-      spinner.succeed(`Found playlist: "${playlist.name}" with ${playlist.totalCount} songs`);
-
-      // Create temp directory for downloads
-      const uniqueSuffix = Date.now();
-      const tempDir = options.tempDir 
-        ? path.join(options.tempDir, `${uniqueSuffix}`)
-        : path.join(options.output, `.temp_${uniqueSuffix}`);
-      fs.mkdirSync(tempDir, { recursive: true });
-
-      // Step 3: Download songs
+/**
+ * Options parsed by addDownloadOptions. Values come from the command line, the environment or a
+ * config file, so numbers and sizes are still strings here; --no-* flags become true/false fields.
+ */
+interface CliOptions {
+  config?: string | undefined;
+  profile?: string | undefined;
+  output: string;
+  tempDir: string;
+  concurrency: string;
+  transcodeConcurrency: string;
+  audioFormat: AudioFormat;
+  quality: string;
+  sampleRate?: string | undefined;
+  channels?: string | undefined;
+  smartBitrate?: boolean | undefined;
+  filenameTemplate: string;
+  asciiFilenames?: boolean | undefined;
+  // false with --no-playlist
+  playlist: boolean;
+  cookies?: string | undefined;
+  metadata: boolean;
+  verify: boolean;
+  playlistFile: boolean;
+  xspf?: boolean | undefined;
+  normalize?: LoudnessMode | undefined;
+  loudnessTarget?: string | undefined;
+  split?: boolean | undefined;
+  splitFile?: string | undefined;
+  trimSilence?: boolean | undefined;
+  cleanTitles: boolean;
+  titleNoise: string[];
+  retry: string[];
+  items?: string | undefined;
+  matchTitle?: string | undefined;
+  rejectTitle?: string | undefined;
+  minDuration?: string | undefined;
+  maxDuration?: string | undefined;
+  dedupeTitles?: boolean | undefined;
+  pick?: boolean | undefined;
+  maxSize?: string | undefined;
+  spaceCheck: boolean;
+  dryRun?: boolean | undefined;
+  batchFile?: string | undefined;
+  playlistConcurrency: string;
+  json?: boolean | undefined;
+}
+
+// Options of the default download command on top of the shared ones
+interface DownloadCliOptions extends CliOptions {
+  zip: boolean;
+  archiveFormat: ArchiveFormat;
+  splitSize?: string | undefined;
+  streamArchive?: boolean | undefined;
+  folderTemplate: string;
+  resume: boolean;
+}
+
+// Options of the sync command on top of the shared ones
+interface SyncCliOptions extends CliOptions {
+  removed: RemovedTrackAction;
+}
+
+// Options of the retry-failed command; everything else comes from the runs that failed
+interface RetryCliOptions {
+  config?: string | undefined;
+  profile?: string | undefined;
+  tempDir: string;
+  concurrency: string;
+  transcodeConcurrency: string;
+  cookies?: string | undefined;
+  kind: FailureKind[];
+  retry: string[];
+  json?: boolean | undefined;
+}
+
+// Options of the verify command
+interface VerifyCliOptions {
+  config?: string | undefined;
+  profile?: string | undefined;
+  // false with --no-tags
+  tags: boolean;
+  json?: boolean | undefined;
+}
+
+// Options of the serve command; the download settings come with each job request
+interface ServeCliOptions {
+  config?: string | undefined;
+  profile?: string | undefined;
+  port: string;
+  host: string;
+  output: string;
+  tempDir: string;
+  maxJobs: string;
+  concurrency: string;
+  transcodeConcurrency: string;
+  cookies?: string | undefined;
+}
+
+/**
+ * Adds the options that pick a config file and profile
+ */
+function addConfigOptions(command: Command): Command {
+  return command
+    .option('--config <file>', 'Read settings from this config file instead of .ytpldrc.json / ytpld.config.json')
+    .option('--profile <name>', 'Apply a named profile from the config file');
+}
+
+/**
+ * Adds the options shared by every command that downloads songs
+ */
+function addDownloadOptions(command: Command): Command {
+  return addConfigOptions(command)
+    .option('-o, --output <dir>', 'Output directory for downloads', path.join(process.cwd(), 'downloads'))
+    .option('--temp-dir <dir>', 'Temporary directory for processing (use different dirs for parallel downloads)', path.join(process.cwd(), '.temp'))
+    .option('-c, --concurrency <number>', 'Number of concurrent downloads', '5')
+    .option('--transcode-concurrency <number>', 'Number of concurrent FFmpeg conversions', '2')
+    .addOption(
+      new Option('-f, --audio-format <format>', 'Output audio format (opus and m4a keep the source stream when possible)')
+        .choices(AUDIO_FORMAT_NAMES)
+        .default('mp3')
+    )
+    .option('-q, --quality <spec>', 'Encoding quality: auto, source (no transcode), a bitrate like 192k, or a LAME VBR level V0-V9', 'auto')
+    .option('--sample-rate <hz>', 'Resample output audio (e.g. 44100)')
+    .option('--channels <number>', 'Number of output channels (1 = mono, 2 = stereo)')
+    .option('--smart-bitrate', 'Never encode above the bitrate of the source stream')
+    .option('--filename-template <template>', 'File name template, e.g. "{track:02} - {title}" ("/" creates folders)', DEFAULT_FILENAME_TEMPLATE)
+    .option('--ascii-filenames', 'Transliterate file and folder names to plain ASCII (e.g. "Beyoncé" becomes "Beyonce")')
+    .option('--no-playlist', 'For a URL with both a video and a list (watch?v=...&list=...), download only the video')
+    .option('--cookies <file>', 'Path to cookies.txt file for private/age-restricted content')
+    .option('--no-metadata', 'Skip adding metadata tags')
+    .option('--no-verify', 'Skip checking finished files for truncation, decoding errors and missing tags')
+    .option('--no-playlist-file', 'Skip writing the .m3u8 playlist file')
+    .option('--xspf', 'Also write an XSPF playlist file')
+    .addOption(
+      new Option('--normalize <mode>', 'Loudness normalization: loudnorm re-encodes every track to --loudness-target, replaygain only adds gain tags')
+        .choices(['loudnorm', 'replaygain'])
+    )
+    .option('--loudness-target <lufs>', 'Integrated loudness for --normalize loudnorm (default: -14)')
+    .option('--split', 'Cut videos with chapters into one track per chapter')
+    .option('--split-file <file>', 'Cue sheet or timestamp list to cut a single video by (implies --split)')
+    .option('--trim-silence', 'Trim silence at the start and end of split tracks (re-encodes them)')
+    .option('--no-clean-titles', 'Keep raw video titles and channel names for uploads without YouTube Music metadata')
+    .option('--title-noise <regex>', 'Extra pattern to strip from video titles (repeatable)', collect, [])
+    .option('--retry <policy>', 'Retry policy for a failure kind: <kind>=<attempts>[:<delay seconds>], e.g. rate-limited=6:60 (repeatable)', collect, [])
+    .option('--items <positions>', 'Only download these playlist positions, e.g. 1-10,15,20-')
+    .option('--match-title <regex>', 'Only download tracks whose title matches (case-insensitive)')
+    .option('--reject-title <regex>', 'Skip tracks whose title matches (case-insensitive)')
+    .option('--min-duration <time>', 'Skip tracks shorter than this (seconds or m:ss)')
+    .option('--max-duration <time>', 'Skip tracks longer than this (seconds or h:mm:ss), e.g. 15:00 to leave out mixes')
+    .option('--dedupe-titles', 'Also skip tracks with the same artist and title as an earlier one (repeated video IDs always are)')
+    .option('--pick', 'Choose the tracks by hand in an interactive checklist before downloading')
+    .option('--max-size <size>', 'Refuse runs whose tracks would exceed this size and stop runs that outgrow it, e.g. 2G or 700M')
+    .option('--no-space-check', 'Skip the free disk space check before downloading and the low-space stop during a run')
+    .option('--dry-run', 'Only show the files, tags and estimated sizes a run would produce; nothing is downloaded')
+    .option('--batch-file <file>', 'Read playlist URLs from a file (one per line, "#" starts a comment)')
+    .option('--playlist-concurrency <number>', 'Playlists processed at the same time when given several URLs; -c and --transcode-concurrency stay global', '2')
+    .option('--json', 'Print one JSON event per line instead of spinners and human-readable output');
+}
+
+/**
+ * Environment variable for an option: audioFormat reads YTPLD_AUDIO_FORMAT, zip (--no-zip) reads YTPLD_ZIP
+ */
+function envVarFor(option: Option): string {
+  return `YTPLD_${option.attributeName().replace(/[A-Z]/g, (letter) => `_${letter}`).toUpperCase()}`;
+}
+
+/**
+ * Reads an option from the environment; flags take true/false, 1/0 or yes/no
+ */
+function envValueFor(option: Option, name: string): ConfigValue | undefined {
+  const value = process.env[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!option.required && !option.optional) {
+    const flag = value.toLowerCase();
+    if (!['true', '1', 'yes', 'false', '0', 'no'].includes(flag)) {
+      throw new ConfigError(`${name} must be true or false`);
+    }
+    return ['true', '1', 'yes'].includes(flag);
+  }
+  return Array.isArray(option.defaultValue) ? [value] : value;
+}
+
+/**
+ * Checks a config value against the option it sets and converts it to what the CLI parser would produce
+ */
+function configValueFor(option: Option, value: ConfigValue, where: string): string | boolean | string[] {
+  const key = option.attributeName();
+
+  if (!option.required && !option.optional) {
+    if (typeof value !== 'boolean') {
+      throw new ConfigError(`${where}: "${key}" must be true or false`);
+    }
+    return value;
+  }
+
+  if (Array.isArray(option.defaultValue)) {
+    if (!Array.isArray(value)) {
+      throw new ConfigError(`${where}: "${key}" must be a list of strings`);
+    }
+    return value;
+  }
+
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new ConfigError(`${where}: "${key}" must be a string or number`);
+  }
+  if (option.argChoices && !option.argChoices.includes(String(value))) {
+    throw new ConfigError(`${where}: "${key}" must be one of ${option.argChoices.join(', ')}`);
+  }
+  return String(value);
+}
+
+/**
+ * Fills in options not given on the command line from the environment, then from the config files
+ * and the selected profile, so the precedence is CLI > env > profile > config > defaults
+ */
+function applyConfig(command: Command): void {
+  // --config and --profile themselves may come from the environment
+  for (const key of ['config', 'profile']) {
+    const name = `YTPLD_${key.toUpperCase()}`;
+    if (command.getOptionValueSource(key) === undefined && process.env[name]) {
+      command.setOptionValueWithSource(key, process.env[name], 'env');
+    }
+  }
+
+  const options = command.opts();
+  const files = (options.config ? [path.resolve(options.config)] : findConfigFiles()).map(readConfigFile);
+
+  // Every setting is checked against all commands, so one profile can serve download, sync and serve
+  const known = new Map<string, Option>();
+  for (const candidate of [program, ...program.commands]) {
+    for (const option of candidate.options) {
+      if (!known.has(option.attributeName())) {
+        known.set(option.attributeName(), option);
+      }
+    }
+  }
+  for (const file of files) {
+    const sections = [{ where: file.path, settings: file.settings }, ...Object.entries(file.profiles).map(([name, settings]) => ({
+      where: `${file.path} (profile "${name}")`,
+      settings,
+    }))];
+    for (const { where, settings } of sections) {
+      for (const [key, value] of Object.entries(settings)) {
+        const option = known.get(key);
+        if (!option || ['config', 'profile', 'version'].includes(key)) {
+          throw new ConfigError(`${where}: unknown setting "${key}"`);
+        }
+        configValueFor(option, value, where);
+      }
+    }
+  }
+
+  const settings = resolveSettings(files, options.profile);
+  for (const option of command.options) {
+    const key = option.attributeName();
+    const source = command.getOptionValueSource(key);
+    if (['config', 'profile', 'version'].includes(key) || (source !== undefined && source !== 'default')) {
+      continue;
+    }
+
+    const envVar = envVarFor(option);
+    const envValue = envValueFor(option, envVar);
+    if (envValue !== undefined) {
+      command.setOptionValueWithSource(key, configValueFor(option, envValue, envVar), 'env');
+    } else if (settings[key] !== undefined) {
+      command.setOptionValueWithSource(key, configValueFor(option, settings[key], 'config'), 'config');
+    }
+  }
+}
+
+/**
+ * Collects the URLs passed as arguments and listed in --batch-file
+ */
+function collectUrls(urls: string[], options: CliOptions): string[] {
+  const all = [...urls, ...(options.batchFile ? readBatchFile(options.batchFile) : [])];
+  if (all.length === 0) {
+    throw new Error('Pass at least one URL or --batch-file');
+  }
+  return [...new Set(all)];
+}
+
+/**
+ * Builds the encoding quality from CLI options
+ */
+function resolveQuality(options: CliOptions): AudioQuality {
+  const quality: AudioQuality = parseQuality(options.quality);
+  if (options.sampleRate) quality.sampleRate = parseInt(options.sampleRate, 10);
+  if (options.channels) quality.channels = parseInt(options.channels, 10);
+  if (options.smartBitrate) quality.capToSource = true;
+  return quality;
+}
+
+/**
+ * Reads a whole-number option such as --max-jobs, rejecting anything outside min..max
+ */
+function parseCount(value: string, flag: string, min = 1, max = Number.MAX_SAFE_INTEGER): number {
+  const count = Number(value);
+  if (!/^\s*\d+\s*$/.test(value) || count < min || count > max) {
+    const range = max === Number.MAX_SAFE_INTEGER ? `of at least ${min}` : `from ${min} to ${max}`;
+    throw new Error(`${flag} must be a whole number ${range}, got: ${value}`);
+  }
+  return count;
+}
+
+/**
+ * Builds the retry policy overrides from --retry values
+ */
+function parseRetryPolicies(specs: string[]): RetryPolicies {
+  return specs.reduce((policies, spec) => parseRetryPolicy(spec, policies), {} as RetryPolicies);
+}
+
+/**
+ * Maps the shared CLI options onto library options
+ */
+function toPipelineOptions(options: CliOptions, signal: AbortSignal, events: DownloadEvents): PipelineOptions {
+  validateTemplate(options.filenameTemplate, '--filename-template');
+  if (options.pick && options.json) {
+    throw new Error('--pick needs an interactive terminal and cannot be combined with --json');
+  }
+
+  return {
+    outputDir: options.output,
+    tempDir: options.tempDir,
+    concurrency: parseInt(options.concurrency, 10),
+    transcodeConcurrency: parseInt(options.transcodeConcurrency, 10),
+    audioFormat: options.audioFormat,
+    quality: resolveQuality(options),
+    filenameTemplate: options.filenameTemplate,
+    asciiFilenames: Boolean(options.asciiFilenames),
+    preferVideo: !options.playlist,
+    cookiesFile: options.cookies,
+    metadata: options.metadata,
+    verify: options.verify,
+    cleanTitles: options.cleanTitles,
+    titleNoise: options.titleNoise,
+    playlistFile: options.playlistFile,
+    xspf: Boolean(options.xspf),
+    normalize: options.normalize,
+    loudnessTarget: options.loudnessTarget === undefined ? undefined : Number(options.loudnessTarget),
+    split: Boolean(options.split),
+    splitFile: options.splitFile,
+    trimSilence: Boolean(options.trimSilence),
+    maxSize: options.maxSize === undefined ? undefined : parseSize(options.maxSize),
+    spaceCheck: options.spaceCheck,
+    retryPolicies: parseRetryPolicies(options.retry),
+    selection: {
+      items: options.items,
+      matchTitle: options.matchTitle,
+      rejectTitle: options.rejectTitle,
+      minDuration: options.minDuration === undefined ? undefined : parseDuration(options.minDuration),
+      maxDuration: options.maxDuration === undefined ? undefined : parseDuration(options.maxDuration),
+      dedupeTitles: Boolean(options.dedupeTitles),
+    },
+    signal,
+    events,
+  };
+}
+
+// Formats seconds as m:ss or h:mm:ss
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const time = `${Math.floor((total % 3600) / 60)}:${String(total % 60).padStart(2, '0')}`;
+  return total >= 3600 ? `${Math.floor(total / 3600)}:${time.padStart(5, '0')}` : time;
+}
+
+// Formats a byte count as MB
+function formatSize(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Prints a dry run's plan: every planned file with its tags and size, then what was left out
+ */
+function printPlan(plan: PlaylistPlan): void {
+  const tracks = `${plan.tracks.length} ${plan.command === 'sync' ? 'new tracks' : 'tracks'}`;
+  console.log(`\n📋 ${plan.playlistName}: ${tracks}, about ${formatSize(plan.estimatedBytes)} of ${plan.audioFormat}`);
+  console.log(`📁 ${plan.location}`);
+  if (plan.command === 'sync') {
+    console.log(`🔄 ${plan.unchanged ?? 0} up to date, ${plan.removed ?? 0} removed from playlist`);
+  }
+
+  // Paths are shown relative to the location; ZIP entries already are
+  const relative = (file: string) => (plan.zip ? file : path.relative(plan.location, file));
+
+  for (const [index, track] of plan.tracks.entries()) {
+    const file = relative(track.path);
+    const size = track.duration > 0 ? `${formatDuration(track.duration)}, ~${formatSize(track.estimatedBytes)}` : 'length unknown';
+    console.log(`${String(index + 1).padStart(4)}. ${file} (${size})${track.renamed ? ' [renamed: name taken]' : ''}`);
+    if (track.tags) {
+      const { title, artist, ...rest } = track.tags;
+      const details = Object.entries(rest).map(([key, value]) => `${key}: ${value}`);
+      console.log(`      ${[`${artist} - ${title}`, ...details].join(' · ')}`);
+    }
+  }
+
+  for (const file of plan.playlistFiles) {
+    console.log(`📝 ${relative(file)}`);
+  }
+  if (plan.skipped.length > 0) {
+    console.log(`\n⏭️  Skipped ${plan.skipped.length} (${describeSkipped(plan.skipped)}):`);
+    plan.skipped.forEach((song) => console.log(`      ${song.title} - ${SKIP_REASONS[song.reason]}`));
+  }
+  if (plan.interruptedRun) {
+    console.log(`\n⚠️  An interrupted run is saved in ${plan.interruptedRun}; a real download resumes it (--no-resume starts over)`);
+  }
+}
+
+/**
+ * Creates the --pick callback: a checklist of the selected tracks shown while the spinner is paused
+ */
+function pickSongs(spinner: Ora): (songs: Song[]) => Promise<Song[]> {
+  return (songs) => {
+    spinner.stop();
+    return pickItems(
+      songs,
+      (song, index) => `${index + 1}. ${song.artist} - ${song.title}${song.duration > 0 ? ` (${formatDuration(song.duration)})` : ''}`,
+      'Choose the tracks to download'
+    );
+  };
+}
+
+const SKIP_REASONS: Record<SkippedSong['reason'], string> = {
+  position: 'outside --items',
+  title: 'title filter',
+  duration: 'duration',
+  duplicate: 'duplicates',
+  'not-picked': 'not picked',
+};
+
+// Describes why tracks were skipped, e.g. "2 duration, 1 duplicates"
+function describeSkipped(skipped: SkippedSong[]): string {
+  const counts = new Map<SkippedSong['reason'], number>();
+  for (const song of skipped) {
+    counts.set(song.reason, (counts.get(song.reason) ?? 0) + 1);
+  }
+  return [...counts].map(([reason, count]) => `${count} ${SKIP_REASONS[reason]}`).join(', ');
+}
+
+// Describes the space check, e.g. "about 1.2 GB of tracks; 2.6 GB needed on the disk of ./downloads (40.1 GB free)"
+function describeSpace(event: Extract<ProgressEvent, { type: 'disk-space' }>): string {
+  const disks = event.filesystems.map((need) => `${formatBytes(need.neededBytes)} needed on the disk of ${need.path} (${formatBytes(need.freeBytes)} free)`);
+  return `about ${formatBytes(event.estimatedBytes)} of tracks; ${disks.join(', ')}`;
+}
+
+const LOG_PREFIXES: Record<LogLevel, string> = { info: 'ℹ', success: '✓', warn: '⚠', error: '✗' };
+
+/**
+ * Prints a log message for humans; warnings and errors go to stderr
+ */
+function printLog(level: LogLevel, message: string): void {
+  const line = `${LOG_PREFIXES[level]} ${message}`;
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Starts the spinner for a command; --json silences it so stdout only carries events
+ */
+function startOutput(options: Pick<CliOptions, 'json'>): Ora {
+  return ora({ text: 'Initializing...', isSilent: Boolean(options.json) }).start();
+}
+
+/**
+ * Reports a fatal error as an "error" event or a failed spinner
+ */
+function reportError(error: unknown, title: string, options: Pick<CliOptions, 'json'>, spinner: Ora): void {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  if (options.json) {
+    writeEvent({ type: 'error', message });
+  } else {
+    spinner.fail(title);
+    printLog('error', message);
+  }
+}
+
+/**
+ * Prints one download progress update for humans
+ */
+function printProgress(progress: Extract<ProgressEvent, { type: 'song-state' }>, finished: number, total: number): void {
+  if (progress.status === 'completed') {
+    console.log(`✅ [${finished}/${total}] ${progress.title}`);
+  } else if (progress.status === 'failed') {
+    console.log(`❌ [${finished}/${total}] ${progress.title} - ${progress.errorKind ? `[${progress.errorKind}] ` : ''}${progress.error}`);
+  } else if (progress.status === 'downloading') {
+    process.stdout.write(`\r⬇️  Downloading: ${progress.title}...`.padEnd(80));
+  } else if (progress.status === 'converting') {
+    process.stdout.write(`\r🎵 Converting: ${progress.title}...`.padEnd(80));
+  }
+}
+
+/**
+ * Points at the failure report a run left behind
+ */
+function printReportHint(report: string | undefined): void {
+  if (report) {
+    console.log(`📝 Failures saved to ${report}; retry them with: retry-failed "${report}"`);
+  }
+}
+
+/**
+ * Creates the event emitter for a run and renders its events as JSON lines or spinners and console output
+ */
+function createReporter(spinner: Ora, options: CliOptions): DownloadEvents {
+  const events = createDownloadEvents();
+
+  if (options.json) {
+    events.on('event', writeEvent);
+    return events;
+  }
+
+  let finished = 0;
+  let total = 0;
+
+  events.on('target-resolved', (event) => {
+    spinner.succeed(`Valid ${event.kind} ID: ${event.id}`);
+    spinner.start(`Fetching ${event.kind} metadata...`);
+  });
+
+  events.on('playlist-resolved', (event) => {
+    if (event.resumed) {
+      spinner.succeed(`Resuming interrupted run (${event.resumedSongs ?? 0}/${event.totalCount} songs done)`);
+    } else {
+      spinner.succeed(`Found ${event.kind}: "${event.name}" with ${event.totalCount} songs`);
+    }
+  });
+
+  events.on('selection', (event) => {
+    spinner.info(`Selected ${event.selected} of ${event.total} tracks (skipped: ${describeSkipped(event.skipped)})`);
+  });
+
+  events.on('plan', (event) => {
+    spinner.stop();
+    printPlan(event);
+  });
+
+  events.on('sync-plan', (event) => {
+    spinner.info(`${event.unchanged} up to date, ${event.added} new, ${event.removed} removed from playlist`);
+  });
+
+  events.on('downloads', (event) => {
+    if (event.status === 'started') {
+      finished = 0;
+      total = event.count;
       spinner.stop();
-      console.log(`\n📥 Downloading ${playlist.songs.length} songs (concurrency: ${options.concurrency})...\n`);
-      
-      let completed = 0;
-      let failed = 0;
-      
-      const downloadResults = await downloadSongs(playlist.songs, {
-        outputDir: tempDir,
-        concurrency: parseInt(options.concurrency, 10),
-        cookiesFile: options.cookies,
-        onProgress: (progress: DownloadProgress) => {
-          if (progress.status === 'completed') {
-            completed++;
-            console.log(`✅ [${completed + failed}/${playlist.songs.length}] ${progress.title}`);
-          } else if (progress.status === 'failed') {
-            failed++;
-            console.log(`❌ [${completed + failed}/${playlist.songs.length}] ${progress.title} - ${progress.error}`);
-          } else if (progress.status === 'downloading') {
-            process.stdout.write(`\r⬇️  Downloading: ${progress.title}...`.padEnd(80));
-          } else if (progress.status === 'converting') {
-            process.stdout.write(`\r🎵 Converting: ${progress.title}...`.padEnd(80));
-          }
-        },
+      console.log(`\n📥 Downloading ${event.count} songs (downloads: ${options.concurrency}, conversions: ${options.transcodeConcurrency})...\n`);
+      return;
+    }
+
+    console.log('\n');
+    spinner.succeed(`Downloaded ${event.succeeded ?? 0}/${event.count} songs`);
+
+    // Log failed downloads
+    if (event.failures && event.failures.length > 0) {
+      printLog('warn', '\nFailed downloads:');
+      event.failures.forEach((failure) => {
+        printLog('error', `  - ${failure.title} (${failure.kind}): ${failure.error}`);
       });
-      
-      console.log('\n');
-      spinner.start('Finalizing...');
+    }
+  });
 
-      const successfulDownloads = downloadResults.filter((r) => r.success);
-      const failedDownloads = downloadResults.filter((r) => !r.success);
+  events.on('song-state', (event) => {
+    if (event.status === 'tagged') {
+      return;
+    }
+    if (event.status === 'completed' || event.status === 'failed') {
+      finished++;
+    }
+    printProgress(event, finished, total);
+  });
 
-      if (successfulDownloads.length === 0) {
-        spinner.fail('No songs were downloaded successfully');
-        process.exit(1);
+  events.on('log', (event) => {
+    printLog(event.level, event.message);
+  });
+
+  events.on('disk-space', (event) => {
+    spinner.info(`Disk space: ${describeSpace(event)}`);
+  });
+
+  events.on('disk-space-stop', (event) => {
+    spinner.warn(`Stopping: ${event.reason}. Free up space (or raise --max-size) and run the same command again to continue`);
+  });
+
+  events.on('split', (event) => {
+    console.log(`✂️  Split "${event.title}" into ${event.tracks} tracks`);
+  });
+
+  events.on('tagging', (event) => {
+    if (event.status === 'started') {
+      spinner.start('Adding metadata tags...');
+    } else {
+      spinner.succeed('Metadata added');
+    }
+  });
+
+  events.on('zip', (event) => {
+    if (event.status === 'started') {
+      spinner.start('Creating archive...');
+    } else {
+      const sizeMB = ((event.size ?? 0) / (1024 * 1024)).toFixed(2);
+      const volumes = event.volumes ? `, ${event.volumes.length} volumes` : '';
+      spinner.succeed(`Archive created: ${event.path} (${sizeMB} MB${volumes})`);
+    }
+  });
+
+  events.on('summary', (event) => {
+    if (event.cancelled) {
+      spinner.warn(
+        event.command === 'sync'
+          ? 'Sync interrupted. Run it again to fetch the remaining tracks.'
+          : `Run interrupted. Progress is saved in ${event.location}; run the same command again to resume.`
+      );
+      return;
+    }
+
+    if (event.command === 'sync') {
+      console.log('\n✨ Sync complete!');
+      console.log(`📁 Location: ${event.location}`);
+      console.log(`🎵 Tracks: ${event.tracks}`);
+      if (event.failed > 0) {
+        console.log(`❌ Failed: ${event.failed} songs (will be retried on the next sync)`);
       }
+      printReportHint(event.report);
+    } else {
+      console.log('\n✨ Download complete!');
+      console.log(`📁 Location: ${event.location}`);
+      console.log(`✅ Success: ${event.succeeded} songs`);
+      if (event.failed > 0) {
+        console.log(`❌ Failed: ${event.failed} songs`);
+      }
+      printReportHint(event.report);
+    }
+  });
 
-      spinner.succeed(`Downloaded ${successfulDownloads.length}/${playlist.songs.length} songs`);
+  return events;
+}
 
-      // Log failed downloads
-      if (failedDownloads.length > 0) {
-        logger.warn('\nFailed downloads:');
-        failedDownloads.forEach((result) => {
-          logger.error(`  - ${result.song.title}: ${result.error}`);
-        });
+/**
+ * Prints the combined result of a batch run as a table
+ */
+function printBatchSummary(results: BatchItemResult[]): void {
+  const header = ['Playlist', 'Status', 'OK', 'Failed', 'Location / error'];
+  const rows = results.map((result) => {
+    const name = result.playlistName ?? result.url;
+    return [
+      name.length > 40 ? `${name.slice(0, 39)}…` : name,
+      result.status,
+      String(result.succeeded),
+      String(result.failed),
+      result.error ?? result.location ?? '',
+    ];
+  });
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column]!.length)));
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd();
+
+  console.log(`\n${formatRow(header)}`);
+  console.log(widths.map((width) => '-'.repeat(width)).join('  '));
+  rows.forEach((row) => console.log(formatRow(row)));
+
+  const completed = results.filter((result) => result.status === 'completed').length;
+  console.log(`\n✨ ${completed}/${results.length} playlists completed`);
+}
+
+/**
+ * Creates the emitters for a batch run: one per playlist, reported as tagged JSON lines or one
+ * prefixed console line per milestone, and one for the combined summary
+ */
+function createBatchReporter(options: Pick<CliOptions, 'json'>, total: number): { events: DownloadEvents; eventsFor: NonNullable<BatchOptions['eventsFor']> } {
+  const events = createDownloadEvents();
+  if (options.json) {
+    events.on('event', (event) => writeEvent(event));
+  } else {
+    events.on('log', (event) => printLog(event.level, event.message));
+    events.on('batch-summary', (event) => printBatchSummary(event.playlists));
+  }
+
+  const eventsFor = (url: string, index: number): DownloadEvents => {
+    const playlistEvents = createDownloadEvents();
+    if (options.json) {
+      playlistEvents.on('event', (event) => writeEvent(event, url));
+      return playlistEvents;
+    }
+
+    let label = `[${index + 1}/${total}] ${url}`;
+    playlistEvents.on('playlist-resolved', (event) => {
+      label = `[${index + 1}/${total}] ${event.name}`;
+      console.log(`📋 ${label}: ${event.totalCount} songs${event.resumed ? ' (resuming)' : ''}`);
+    });
+    playlistEvents.on('selection', (event) => {
+      console.log(`🔎 ${label}: ${event.selected} of ${event.total} tracks selected (skipped: ${describeSkipped(event.skipped)})`);
+    });
+    playlistEvents.on('sync-plan', (event) => {
+      console.log(`🔄 ${label}: ${event.added} new, ${event.removed} removed from playlist`);
+    });
+    playlistEvents.on('song-state', (event) => {
+      if (event.status === 'completed') {
+        console.log(`✅ ${label}: ${event.title}`);
+      } else if (event.status === 'failed') {
+        console.log(`❌ ${label}: ${event.title} - ${event.errorKind ? `[${event.errorKind}] ` : ''}${event.error}`);
+      }
+    });
+    playlistEvents.on('log', (event) => {
+      printLog(event.level, `${label}: ${event.message}`);
+    });
+    playlistEvents.on('disk-space-stop', (event) => {
+      console.log(`⚠️  ${label}: stopping, ${event.reason}`);
+    });
+    playlistEvents.on('split', (event) => {
+      console.log(`✂️  ${label}: split "${event.title}" into ${event.tracks} tracks`);
+    });
+    playlistEvents.on('zip', (event) => {
+      if (event.status === 'completed') {
+        console.log(`📦 ${label}: ${event.path}${event.volumes ? ` (${event.volumes.length} volumes)` : ''}`);
       }
+    });
+    return playlistEvents;
+  };
+
+  return { events, eventsFor };
+}
+
+/**
+ * Runs a command over several playlists and exits with 1 if any playlist failed, 130 if cancelled
+ */
+async function runBatchCommand(
+  urls: string[],
+  options: CliOptions,
+  spinner: Ora,
+  signal: AbortSignal,
+  run: (urls: string[], options: PipelineOptions & BatchOptions) => Promise<BatchItemResult[]>
+): Promise<void> {
+  if (options.pick) {
+    throw new Error('--pick works with one URL at a time');
+  }
+  if (options.splitFile) {
+    throw new Error('--split-file cuts a single video and works with one URL at a time');
+  }
+
+  const reporter = createBatchReporter(options, urls.length);
+  const pipelineOptions = toPipelineOptions(options, signal, reporter.events);
+  const playlistConcurrency = parseInt(options.playlistConcurrency, 10);
+
+  spinner.info(`Processing ${urls.length} playlists (${playlistConcurrency} at a time)`);
+  exitForBatch(await run(urls, { ...pipelineOptions, playlistConcurrency, eventsFor: reporter.eventsFor }));
+}
+
+/**
+ * Plans a command for each URL instead of running it (--dry-run)
+ */
+async function runDryRun(
+  command: 'download' | 'sync',
+  urls: string[],
+  options: CliOptions,
+  spinner: Ora,
+  signal: AbortSignal,
+  commandOptions: Partial<PlanOptions>
+): Promise<void> {
+  if (options.pick && urls.length > 1) {
+    throw new Error('--pick works with one URL at a time');
+  }
+  if (options.splitFile && urls.length > 1) {
+    throw new Error('--split-file cuts a single video and works with one URL at a time');
+  }
+
+  for (const url of urls) {
+    let events = createReporter(spinner, options);
+    if (options.json && urls.length > 1) {
+      events = createDownloadEvents();
+      events.on('event', (event) => writeEvent(event, url));
+    }
+
+    spinner.start('Validating URL...');
+    await planPlaylist(command, url, {
+      ...toPipelineOptions(options, signal, events),
+      ...(options.pick ? { pickTracks: pickSongs(spinner) } : {}),
+      ...commandOptions,
+    });
+  }
+}
+
+/**
+ * Exits with 130 if any playlist of a batch was cancelled and 1 if any failed
+ */
+function exitForBatch(results: BatchItemResult[]): void {
+  if (results.some((result) => result.status === 'cancelled')) {
+    process.exit(130);
+  }
+  if (results.some((result) => result.status === 'failed')) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Turns the first Ctrl-C into a clean cancellation and the second into an immediate exit
+ */
+function handleInterrupts(spinner: Ora): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
 
-      // Step 4: Add metadata
-      if (options.metadata) {
-        spinner.start('Adding metadata tags...');
-        await addMetadataToFiles(
-          successfulDownloads.map((result) => ({
-            filePath: result.filePath,
-            song: result.song,
-          }))
+  const onSigint = () => {
+    if (controller.signal.aborted) {
+      process.exit(130);
+    }
+    spinner.warn('Stopping: cancelling in-flight songs and cleaning up partial files (Ctrl-C again to force quit)');
+    controller.abort();
+  };
+
+  process.on('SIGINT', onSigint);
+  return {
+    signal: controller.signal,
+    dispose: () => process.off('SIGINT', onSigint),
+  };
+}
+
+addDownloadOptions(program)
+  .argument('[urls...]', 'YouTube (Music) playlist, album, video or channel URLs')
+  .option('--no-zip', 'Skip creating ZIP archive')
+  .addOption(new Option('--archive-format <format>', 'Archive format; audio and artwork are stored uncompressed').choices(ARCHIVE_FORMATS).default('zip'))
+  .option('--split-size <size>', 'Split the archive into volumes of at most this size, e.g. 2G or 700M')
+  .option('--stream-archive', 'Add each track to the archive as soon as it is finished (not with --split or --normalize replaygain)')
+  .option('--folder-template <template>', 'Folder layout under the output directory with --no-zip, e.g. "{artist}/{album}"', DEFAULT_FOLDER_TEMPLATE)
+  .option('--no-resume', 'Start a fresh run even if an interrupted one exists for this playlist')
+  .action(async (urls: string[], options: DownloadCliOptions) => {
+    const spinner = startOutput(options);
+    const interrupts = handleInterrupts(spinner);
+
+    try {
+      validateTemplate(options.folderTemplate, '--folder-template');
+      const targets = collectUrls(urls, options);
+      const downloadOptions = {
+        zip: options.zip,
+        folderTemplate: options.folderTemplate,
+        resume: options.resume,
+        archiveFormat: options.archiveFormat,
+        splitSize: options.splitSize === undefined ? undefined : parseSize(options.splitSize),
+        streamArchive: options.streamArchive,
+      };
+
+      if (options.dryRun) {
+        await runDryRun('download', targets, options, spinner, interrupts.signal, downloadOptions);
+        return;
+      }
+
+      if (targets.length > 1) {
+        await runBatchCommand(targets, options, spinner, interrupts.signal, (batch, batchOptions) =>
+          downloadPlaylists(batch, { ...batchOptions, ...downloadOptions })
         );
-        spinner.succeed('Metadata added');
+        return;
       }
 
-      // Step 5: Create ZIP
-      let finalPath = tempDir;
-      
-      if (options.zip) {
-        spinner.start('Creating ZIP archive...');
-        
-        // Use uploader in name if available: "Album Name — Artist"
-        const zipName = playlist.uploader 
-          ? `${playlist.name} — ${playlist.uploader}`
-          : playlist.name;
-        
-        const zipResult = await createZip({
-          sourceDir: tempDir,
-          outputDir: options.output,
-          zipName: zipName,
-        });
-        
-        const sizeMB = (zipResult.totalSize / (1024 * 1024)).toFixed(2);
-        spinner.succeed(`ZIP created: ${zipResult.zipPath} (${sizeMB} MB)`);
-        
-        finalPath = zipResult.zipPath;
-
-        // Clean up temp directory
-        fs.rmSync(tempDir, { recursive: true, force: true });
-      } else {
-        // Move files from temp to output
-        const finalDir = path.join(options.output, playlist.name);
-        fs.mkdirSync(finalDir, { recursive: true });
-        
-        const files = fs.readdirSync(tempDir);
-        for (const file of files) {
-          fs.renameSync(
-            path.join(tempDir, file),
-            path.join(finalDir, file)
-          );
-        }
-        
-        fs.rmdirSync(tempDir);
-        finalPath = finalDir;
+      const pipelineOptions: PipelineOptions = {
+        ...toPipelineOptions(options, interrupts.signal, createReporter(spinner, options)),
+        ...(options.pick ? { pickTracks: pickSongs(spinner) } : {}),
+      };
+
+      spinner.text = 'Validating URL...';
+      const result = await downloadPlaylist(targets[0]!, { ...pipelineOptions, ...downloadOptions });
+
+      if (result.cancelled) {
+        process.exit(130);
       }
+    } catch (error) {
+      reportError(error, 'Download failed', options, spinner);
+      process.exit(1);
+    } finally {
+      interrupts.dispose();
+    }
+  });
 
-      // Final summary
-      console.log('\n✨ Download complete!');
-      console.log(`📁 Location: ${finalPath}`);
-      console.log(`✅ Success: ${successfulDownloads.length} songs`);
-      if (failedDownloads.length > 0) {
-        console.log(`❌ Failed: ${failedDownloads.length} songs`);
+addDownloadOptions(program.command('sync'))
+  .description('Download only the tracks added to a playlist since the last sync')
+  .argument('[urls...]', 'YouTube (Music) playlist, album, video or channel URLs')
+  .addOption(
+    new Option('--removed <action>', 'What to do with tracks taken off the playlist')
+      .choices(['keep', 'delete', 'move'])
+      .default('keep')
+  )
+  .action(async (urls: string[], options: SyncCliOptions) => {
+    const spinner = startOutput(options);
+    const interrupts = handleInterrupts(spinner);
+
+    try {
+      const targets = collectUrls(urls, options);
+
+      if (options.dryRun) {
+        await runDryRun('sync', targets, options, spinner, interrupts.signal, { removed: options.removed });
+        return;
       }
 
+      if (targets.length > 1) {
+        await runBatchCommand(targets, options, spinner, interrupts.signal, (batch, batchOptions) =>
+          syncPlaylists(batch, { ...batchOptions, removed: options.removed })
+        );
+        return;
+      }
+
+      const pipelineOptions: PipelineOptions = {
+        ...toPipelineOptions(options, interrupts.signal, createReporter(spinner, options)),
+        ...(options.pick ? { pickTracks: pickSongs(spinner) } : {}),
+      };
+
+      spinner.text = 'Validating URL...';
+      const result = await syncPlaylist(targets[0]!, { ...pipelineOptions, removed: options.removed });
+
+      if (result.cancelled) {
+        process.exit(130);
+      }
+    } catch (error) {
+      reportError(error, 'Sync failed', options, spinner);
+      process.exit(1);
+    } finally {
+      interrupts.dispose();
+    }
+  });
+
+addConfigOptions(program.command('retry-failed'))
+  .description('Download the songs listed in a failed.json report again, with the settings of the runs that failed')
+  .argument('<report>', 'failed.json in the output directory of the failed runs')
+  .option('--temp-dir <dir>', 'Temporary directory for processing', path.join(process.cwd(), '.temp'))
+  .option('-c, --concurrency <number>', 'Number of concurrent downloads', '5')
+  .option('--transcode-concurrency <number>', 'Number of concurrent FFmpeg conversions', '2')
+  .option('--cookies <file>', 'Path to cookies.txt file (e.g. for songs that failed as private or age-restricted)')
+  .addOption(
+    new Option('--kind <kinds...>', 'Only retry songs that failed for these reasons')
+      .choices(FAILURE_KINDS)
+      .default([])
+  )
+  .option('--retry <policy>', 'Retry policy for a failure kind: <kind>=<attempts>[:<delay seconds>] (repeatable)', collect, [])
+  .option('--json', 'Print one JSON event per line instead of human-readable output')
+  .action(async (reportPath: string, options: RetryCliOptions) => {
+    const spinner = startOutput(options);
+    const interrupts = handleInterrupts(spinner);
+
+    try {
+      if (!fs.existsSync(reportPath)) {
+        throw new Error(`No failure report at ${reportPath}`);
+      }
+      const report = readFailedReport(reportPath);
+      const concurrency = parseCount(options.concurrency, '--concurrency');
+      const transcodeConcurrency = parseCount(options.transcodeConcurrency, '--transcode-concurrency');
+      const kinds = options.kind;
+      const songCounts = report.playlists.map((entry) =>
+        entry.songs.filter((song) => kinds.length === 0 || kinds.includes(song.kind)).length
+      );
+      const songCount = songCounts.reduce((total, count) => total + count, 0);
+      if (songCount === 0) {
+        spinner.succeed('Nothing to retry');
+        return;
+      }
+
+      const reporter = createBatchReporter(options, report.playlists.length);
+      spinner.info(`Retrying ${songCount} songs from ${songCounts.filter((count) => count > 0).length} playlists`);
+
+      exitForBatch(await retryFailed(reportPath, {
+        tempDir: options.tempDir,
+        concurrency,
+        transcodeConcurrency,
+        cookiesFile: options.cookies,
+        retryPolicies: parseRetryPolicies(options.retry),
+        ...(kinds.length > 0 ? { kinds } : {}),
+        signal: interrupts.signal,
+        events: reporter.events,
+        eventsFor: reporter.eventsFor,
+      }));
     } catch (error) {
-      spinner.fail('Download failed');
-      logger.error(error instanceof Error ? error.message : 'Unknown error');
+      reportError(error, 'Retry failed', options, spinner);
       process.exit(1);
     } finally {
-      logger.clearSpinner();
+      interrupts.dispose();
+    }
+  });
+
+addConfigOptions(program.command('verify'))
+  .description('Check a finished download folder or ZIP for missing, truncated, undecodable or untagged files')
+  .argument('<location>', 'Download folder, sync folder or ZIP; checked against its manifest or .m3u8 playlist file')
+  .option('--no-tags', 'Do not report missing title and artist tags (for downloads made with --no-metadata)')
+  .option('--json', 'Print one JSON event per line instead of human-readable output')
+  .action(async (location: string, options: VerifyCliOptions) => {
+    const spinner = startOutput(options);
+    const interrupts = handleInterrupts(spinner);
+    const events = createDownloadEvents();
+
+    if (options.json) {
+      events.on('event', writeEvent);
+    } else {
+      let checked = 0;
+      events.on('verify', (event) => {
+        checked++;
+        spinner.text = `Verifying: ${checked} files checked`;
+        if (event.problems.length > 0) {
+          spinner.clear();
+          console.log(`❌ ${event.file}: ${event.problems.join('; ')}`);
+        }
+      });
+    }
+
+    try {
+      spinner.text = `Verifying ${location}...`;
+      const report = await verifyDownload(location, { tags: options.tags, signal: interrupts.signal, events });
+      const sources = { manifest: 'its manifest', playlist: 'its playlist file', files: 'the audio files found' };
+      const summary = `${report.ok} of ${report.checked + report.missing.length} files OK (checked against ${sources[report.source]})`;
+      if (report.bad.length > 0 || report.missing.length > 0) {
+        spinner.fail(`${summary}: ${report.bad.length} broken, ${report.missing.length} missing`);
+        process.exit(1);
+      }
+      spinner.succeed(summary);
+    } catch (error) {
+      reportError(error, 'Verification failed', options, spinner);
+      process.exit(interrupts.signal.aborted ? 130 : 1);
+    } finally {
+      interrupts.dispose();
+    }
+  });
+
+addConfigOptions(program.command('serve'))
+  .description('Run an HTTP server that queues downloads and streams their progress')
+  .option('-p, --port <number>', 'Port to listen on', '8080')
+  .option('--host <host>', 'Address to listen on (use 0.0.0.0 to allow other machines)', '127.0.0.1')
+  .option('-o, --output <dir>', 'Directory for finished archives and the job history', path.join(process.cwd(), 'downloads'))
+  .option('--temp-dir <dir>', 'Temporary directory for processing', path.join(process.cwd(), '.temp'))
+  .option('--max-jobs <number>', 'Number of jobs downloading at the same time', '1')
+  .option('-c, --concurrency <number>', 'Number of concurrent downloads per job', '5')
+  .option('--transcode-concurrency <number>', 'Number of concurrent FFmpeg conversions per job', '2')
+  .option('--cookies <file>', 'Path to cookies.txt file used for every job')
+  .action(async (options: ServeCliOptions) => {
+    try {
+      const port = parseCount(options.port, '--port', 1, 65535);
+      const jobs = createJobManager({
+        outputDir: options.output,
+        tempDir: options.tempDir,
+        maxJobs: parseCount(options.maxJobs, '--max-jobs'),
+        cookiesFile: options.cookies,
+        concurrency: parseCount(options.concurrency, '--concurrency'),
+        transcodeConcurrency: parseCount(options.transcodeConcurrency, '--transcode-concurrency'),
+        log: createLogger(printLog),
+      });
+      const server = createJobServer(jobs);
+
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, options.host, resolve);
+      });
+      printLog('success', `Listening on http://${options.host}:${options.port}`);
+
+      // Running jobs are stopped cleanly and resume when the server starts again
+      process.once('SIGINT', async () => {
+        printLog('info', 'Stopping server: running jobs will resume on the next start');
+        server.close();
+        server.closeAllConnections();
+        await jobs.shutdown();
+        process.exit(0);
+      });
+    } catch (error) {
+      printLog('error', error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
     }
   });
 
+program.addHelpText('after', `
+Settings are read from the command line, then the environment, then the selected --profile, then the
+config files (~/.ytpldrc.json and ./.ytpldrc.json or ytpld.config.json), then the defaults shown above.
+Every option has an environment variable named after it: --audio-format is YTPLD_AUDIO_FORMAT, --no-zip is YTPLD_ZIP=false.`);
+
+program.hook('preAction', (_program, actionCommand) => {
+  try {
+    applyConfig(actionCommand);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (actionCommand.opts().json) {
+      writeEvent({ type: 'error', message });
+      process.exit(1);
+    }
+    actionCommand.error(`Config error: ${message}`);
+  }
+});
+
 program.parse();
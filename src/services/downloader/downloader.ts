@@ -1,24 +1,28 @@
 import fs from 'fs';
 import path from 'path';
 import https from 'https';
-import { execSync } from 'child_process';
-import ffmpeg from 'fluent-ffmpeg';
-import ffmpegStatic from 'ffmpeg-static';
+import { setTimeout as sleep } from 'timers/promises';
 import PQueue from 'p-queue';
-import { logger } from '../../utils/logger.js';
-import { sanitizeFilename } from '../../utils/validator.js';
-import type { Song, DownloadProgress } from '../../types/index.js';
-
-const NETWORK_ERROR_PATTERNS = [
-  /ENOTFOUND/i,
-  /EAI_AGAIN/i,
-  /ECONNRESET/i,
-  /ETIMEDOUT/i,
-  /network is unreachable/i,
-  /getaddrinfo ENOTFOUND/i,
-  /Temporary failure in name resolution/i,
-  /Resolving timed out/i,
-];
+import { silentLogger, type Logger } from '../../utils/logger.js';
+import { filenameKey, fitPathLength, sanitizeFilename } from '../../utils/validator.js';
+import { runYtDlp } from '../../utils/process.js';
+import { ffmpeg, probeAudio } from '../../utils/ffmpeg.js';
+import { AUDIO_FORMATS, type AudioFormatSpec } from './formats.js';
+import { buildEncodingPlans, DEFAULT_QUALITY, validateQuality, type EncodingPlan } from './quality.js';
+import { classifyError, resolveRetryPolicies, retryDelay, SongError, type RetryPolicies, type RetryPolicy } from './errors.js';
+import { loudnessKey, loudnormFilter, measureCached, type LoudnessCache } from '../loudness/loudness.js';
+import { verifyAudioFile } from '../verify/verify.js';
+import type {
+  Song,
+  DownloadProgress,
+  AudioFormat,
+  AudioQuality,
+  FailureKind,
+  LoudnessMeasurement,
+  LoudnessMode,
+  SongJobStatus,
+  SongResult,
+} from '../../types/index.js';
 
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -46,205 +50,637 @@ async function isOnline(): Promise<boolean> {
   });
 }
 
-async function waitForReconnect(logPrefix: string): Promise<void> {
+async function waitForReconnect(logPrefix: string, log: Logger, signal?: AbortSignal): Promise<void> {
   let announced = false;
   while (true) {
+    if (signal?.aborted) {
+      throw new Error('Cancelled');
+    }
+
     const online = await isOnline();
     if (online) {
       if (announced) {
-        console.log(`${logPrefix}🌐 Internet reconnected. Resuming downloads...`);
+        log.info(`${logPrefix}🌐 Internet reconnected. Resuming downloads...`);
       }
       return;
     }
 
     if (!announced) {
-      console.log(`${logPrefix}🌐 No internet. Pausing downloads until connection is back...`);
+      log.warn(`${logPrefix}🌐 No internet. Pausing downloads until connection is back...`);
       announced = true;
     } else {
-      console.log(`${logPrefix}🌐 Still offline. Retrying in 5s...`);
+      log.warn(`${logPrefix}🌐 Still offline. Retrying in 5s...`);
     }
     await delay(5000);
   }
 }
 
-function isNetworkError(message: string): boolean {
-  return NETWORK_ERROR_PATTERNS.some((pattern) => pattern.test(message));
-}
-
-// Set FFmpeg path
-if (ffmpegStatic) {
-  ffmpeg.setFfmpegPath(ffmpegStatic as unknown as string);
-}
-
 export interface DownloadOptions {
   outputDir: string;
   concurrency?: number;
-  quality?: string;
+  transcodeConcurrency?: number;
+  maxPendingTranscodes?: number;
+  quality?: AudioQuality;
+  audioFormat?: AudioFormat;
   cookiesFile?: string;
+  // Relative path (without extension) of a song's file inside outputDir; may contain folders
+  outputName?: (song: Song) => string;
+  // Relative paths (with extension) already taken at the destination, e.g. tracks from an earlier sync
+  reservedNames?: Iterable<string>;
+  // Stages already completed by an interrupted run in the same output dir, by song ID
+  resumeStates?: Record<string, SongJobStatus>;
+  // Queues shared with other downloadSongs calls, so several playlists draw on one concurrency budget
+  queues?: PipelineQueues;
+  // Overrides of the retry policy per failure kind
+  retryPolicies?: RetryPolicies;
+  // Loudness normalization of the converted files
+  loudness?: LoudnessOptions;
+  // Check every converted file with FFprobe and a full decode, downloading it again if it is broken
+  verify?: boolean;
+  // Cancels queued songs and kills in-flight downloads/conversions
+  signal?: AbortSignal;
   onProgress?: (progress: DownloadProgress) => void;
+  // Runs on each finished file before the song counts as done, e.g. to tag it and archive it straight
+  // away. Throwing fails the song; a 'corrupt' SongError downloads it again.
+  onSongDone?: (result: SongResult) => Promise<void>;
+  // Receives retry, failure and summary messages (default: dropped)
+  log?: Logger;
 }
 
-export interface DownloadResult {
-  song: Song;
-  filePath: string;
-  success: boolean;
-  error?: string;
+export interface LoudnessOptions {
+  // loudnorm re-encodes every song to the target; replaygain measures the output for gain tags
+  mode: LoudnessMode;
+  // Integrated loudness in LUFS that loudnorm brings songs to
+  target: number;
+  cache: LoudnessCache;
 }
 
+// The network and FFmpeg stages of the pipeline
+export interface PipelineQueues {
+  download: PQueue;
+  transcode: PQueue;
+}
+
+interface SongPaths {
+  outputPath: string;
+  tempAudioPath: string;
+}
+
+// Settings shared by every song of one downloadSongs call
+interface PipelineContext {
+  spec: AudioFormatSpec;
+  quality: AudioQuality;
+  cookiesFile?: string | undefined;
+  retryPolicies: Record<FailureKind, RetryPolicy>;
+  loudness?: LoudnessOptions | undefined;
+  verify: boolean;
+  signal?: AbortSignal | undefined;
+  onProgress?: ((progress: DownloadProgress) => void) | undefined;
+  log: Logger;
+}
+
+// yt-dlp prints one machine-readable progress line per update; fields it doesn't know are "NA"
+const DOWNLOAD_PROGRESS_TEMPLATE =
+  'download:ytpld-progress %(progress.downloaded_bytes)s %(progress.total_bytes)s %(progress.total_bytes_estimate)s';
+const DOWNLOAD_PROGRESS_PATTERN = /^ytpld-progress (\S+) (\S+) (\S+)$/;
+
+function parseByteCount(value: string | undefined): number | undefined {
+  const bytes = Number(value);
+  return value && Number.isFinite(bytes) ? Math.round(bytes) : undefined;
+}
+
+// Room kept free in a file name for the " [videoId]" suffix added on collisions
+const COLLISION_SUFFIX_BYTES = 14;
+
 /**
- * Downloads a single song with highest quality audio using yt-dlp
+ * Picks a unique relative path (without extension) for every song, in playlist order.
+ * Names are compared the way case-insensitive file systems do, so "Intro" and "intro" clash too;
+ * the first song keeps its name and later ones get their video ID appended, which keeps names
+ * stable between runs of the same playlist.
  */
-async function downloadSong(
-  song: Song,
+export function assignSongNames(
+  songs: Song[],
   outputDir: string,
-  cookiesFile?: string,
-  onProgress?: (progress: DownloadProgress) => void
-): Promise<DownloadResult> {
-  const sanitizedTitle = sanitizeFilename(`${song.artist} - ${song.title}`);
-  const outputPath = path.join(outputDir, `${sanitizedTitle}.mp3`);
-  const tempAudioPath = path.join(outputDir, `${sanitizedTitle}.webm`);
-  const maxRetries = 4;
+  spec: AudioFormatSpec,
+  outputName?: (song: Song) => string,
+  reservedNames: Iterable<string> = []
+): Map<Song, string> {
+  const taken = new Set<string>();
+  for (const name of reservedNames) {
+    taken.add(filenameKey(name));
+  }
 
-  try {
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      // Update progress: downloading
-      onProgress?.({
-        songId: song.id,
-        title: song.title,
-        status: 'downloading',
-        progress: 0,
-      });
+  const names = new Map<Song, string>();
+  for (const song of songs) {
+    const baseName = fitPathLength(
+      outputName ? outputName(song) : sanitizeFilename(`${song.artist} - ${song.title}`),
+      outputDir,
+      spec.extension.length + 1 + COLLISION_SUFFIX_BYTES
+    );
 
-      // Construct yt-dlp command
-      const cookiesArg = cookiesFile ? `--cookies "${cookiesFile}"` : '';
-      const command = `py -m yt_dlp -f "bestaudio[ext=webm]/bestaudio" ${cookiesArg} "https://www.youtube.com/watch?v=${song.id}" -o "${tempAudioPath}" --no-warnings`;
+    let name = baseName;
+    for (let index = 2; taken.has(filenameKey(`${name}.${spec.extension}`)); index++) {
+      name = index === 2 ? `${baseName} [${song.id}]` : `${baseName} [${song.id}] (${index - 1})`;
+    }
 
-      try {
-        execSync(command, {
-          stdio: 'ignore',
-          maxBuffer: 100 * 1024 * 1024,
-        });
-        break; // success; exit retry loop
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
+    taken.add(filenameKey(`${name}.${spec.extension}`));
+    names.set(song, name);
+  }
 
-        // Clean up temp file if created
-        if (fs.existsSync(tempAudioPath)) {
-          fs.unlinkSync(tempAudioPath);
-        }
+  return names;
+}
 
-        if (isNetworkError(message) && attempt < maxRetries) {
-          const prefix = `(${attempt}/${maxRetries}) `;
-          console.log(`${prefix}Network issue detected. Pausing until internet returns...`);
-          await waitForReconnect(prefix);
-          continue; // retry
-        }
+function getSongPaths(name: string, outputDir: string, spec: AudioFormatSpec): SongPaths {
+  const basePath = path.join(outputDir, name);
+  fs.mkdirSync(path.dirname(basePath), { recursive: true });
 
+  return {
+    outputPath: `${basePath}.${spec.extension}`,
+    tempAudioPath: `${basePath}.webm`,
+  };
+}
+
+function removeIfExists(filePath: string): void {
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
+
+// Removes yt-dlp's in-progress files for a download target
+function removePartialDownload(tempAudioPath: string): void {
+  removeIfExists(`${tempAudioPath}.part`);
+  removeIfExists(`${tempAudioPath}.ytdl`);
+}
+
+/**
+ * Runs one stage of a song, retrying failures as the policy for their kind allows.
+ * The error finally thrown is a SongError carrying the kind.
+ */
+async function withRetries<T>(
+  song: Song,
+  stage: 'download' | 'convert',
+  context: PipelineContext,
+  run: () => Promise<T>
+): Promise<T> {
+  const { signal } = context;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (signal?.aborted) {
         throw error;
       }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const kind = classifyError(error, stage);
+      const policy = context.retryPolicies[kind];
+      // Corrupt output comes from a bad download, so downloadSongs fetches the song again instead
+      if (attempt >= policy.attempts || kind === 'corrupt') {
+        throw new SongError(message, kind);
+      }
+
+      const prefix = `(${attempt}/${policy.attempts}) `;
+      if (kind === 'network') {
+        context.log.warn(`${prefix}Network issue detected. Pausing until internet returns...`);
+        await waitForReconnect(prefix, context.log, signal);
+      }
+      const wait = retryDelay(policy, attempt);
+      context.log.warn(`${prefix}"${song.title}" failed (${kind})${wait > 0 ? `, retrying in ${Math.round(wait / 1000)}s` : ', retrying'}`);
+      await sleep(wait, undefined, signal ? { signal } : {});
     }
+  }
+}
 
-    // Convert to MP3 with FFmpeg
-    await new Promise<void>((resolve, reject) => {
-      onProgress?.({
-        songId: song.id,
-        title: song.title,
-        status: 'converting',
-        progress: 50,
-      });
+/**
+ * Downloads the best audio stream of a song with yt-dlp (network stage)
+ */
+function downloadAudio(song: Song, tempAudioPath: string, context: PipelineContext): Promise<void> {
+  const { spec, cookiesFile, signal, onProgress } = context;
 
-      ffmpeg(tempAudioPath)
-        .audioBitrate(320)
-        .audioCodec('libmp3lame')
-        .format('mp3')
-        .on('end', () => {
-          // Clean up temp file
-          if (fs.existsSync(tempAudioPath)) {
-            fs.unlinkSync(tempAudioPath);
+  return withRetries(song, 'download', context, async () => {
+    onProgress?.({
+      songId: song.id,
+      title: song.title,
+      status: 'downloading',
+      progress: 0,
+    });
+
+    const args = [
+      '-f', spec.sourceSelector,
+      ...(cookiesFile ? ['--cookies', cookiesFile] : []),
+      `https://www.youtube.com/watch?v=${song.id}`,
+      '-o', tempAudioPath,
+      '--no-warnings',
+      '--newline',
+      '--progress-template', DOWNLOAD_PROGRESS_TEMPLATE,
+    ];
+
+    try {
+      await runYtDlp(args, {
+        signal,
+        onStdoutLine: (line) => {
+          const match = line.match(DOWNLOAD_PROGRESS_PATTERN);
+          if (!match) {
+            return;
+          }
+
+          const downloadedBytes = parseByteCount(match[1]);
+          const totalBytes = parseByteCount(match[2]) ?? parseByteCount(match[3]);
+          if (downloadedBytes === undefined) {
+            return;
           }
-          
+
+          // The download stage covers the first half of a song's progress
           onProgress?.({
             songId: song.id,
             title: song.title,
-            status: 'completed',
-            progress: 100,
+            status: 'downloading',
+            progress: totalBytes ? Math.min(50, Math.round((downloadedBytes / totalBytes) * 50)) : 0,
+            downloadedBytes,
+            totalBytes,
           });
-          resolve();
-        })
-        .on('error', (err: Error) => {
-          reject(err);
-        })
-        .save(outputPath);
-    });
+        },
+      });
+    } catch (error) {
+      // Clean up temp file if created
+      removeIfExists(tempAudioPath);
+      removePartialDownload(tempAudioPath);
+      throw error;
+    }
+  });
+}
+
+/**
+ * Runs one FFmpeg conversion; with a section, only that part of the input (times in seconds) is converted
+ */
+export function runConversion(
+  inputPath: string,
+  outputPath: string,
+  spec: AudioFormatSpec,
+  plan: EncodingPlan,
+  signal?: AbortSignal,
+  section?: { start: number; duration?: number | undefined }
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Cancelled'));
+      return;
+    }
+
+    const command = ffmpeg(inputPath).noVideo().format(spec.muxer).audioCodec(plan.codec);
+    const onAbort = () => command.kill('SIGKILL');
+
+    if (section) {
+      command.seekInput(section.start);
+      if (section.duration) {
+        command.duration(section.duration);
+      }
+    }
+
+    if (plan.bitrate) {
+      command.audioBitrate(plan.bitrate);
+    }
+    if (plan.vbrQuality !== undefined) {
+      command.audioQuality(plan.vbrQuality);
+    }
+    if (plan.sampleRate) {
+      command.audioFrequency(plan.sampleRate);
+    }
+    if (plan.channels) {
+      command.audioChannels(plan.channels);
+    }
+    if (plan.filter) {
+      command.audioFilters(plan.filter);
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    command
+      .on('end', () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      })
+      .on('error', (err: Error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(signal?.aborted ? new Error('Cancelled') : err);
+      })
+      .save(outputPath);
+  });
+}
 
-    return {
-      song,
-      filePath: outputPath,
-      success: true,
-    };
+/**
+ * Measures a converted file for ReplayGain tags. A failed measurement only costs the tags.
+ */
+async function measureOutput(song: Song, outputPath: string, context: PipelineContext): Promise<LoudnessMeasurement | undefined> {
+  const { loudness, spec, signal } = context;
+  if (loudness?.mode !== 'replaygain') {
+    return undefined;
+  }
+
+  try {
+    return await measureCached(loudness.cache, loudnessKey(song.id, spec.format), outputPath, signal);
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
-    // Clean up temp file if it exists
-    if (fs.existsSync(tempAudioPath)) {
-      fs.unlinkSync(tempAudioPath);
+    if (!signal?.aborted) {
+      context.log.warn(`Could not measure the loudness of "${song.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-    
-    onProgress?.({
-      songId: song.id,
-      title: song.title,
-      status: 'failed',
-      progress: 0,
-      error: errorMessage,
-    });
+    return undefined;
+  }
+}
+
+/**
+ * Checks a converted file when verification is on; a broken one fails as corrupt
+ */
+async function verifyOutput(song: Song, paths: SongPaths, context: PipelineContext): Promise<void> {
+  if (!context.verify) {
+    return;
+  }
+
+  const problems = await verifyAudioFile(paths.outputPath, { duration: song.duration }, context.signal);
+  if (problems.length > 0) {
+    removeIfExists(paths.outputPath);
+    removeIfExists(paths.tempAudioPath);
+    throw new SongError(`Converted file failed verification: ${problems.join('; ')}`, 'corrupt');
+  }
+}
+
+/**
+ * Checks a file left by an interrupted run; a broken one is removed so the song starts over
+ */
+async function isIntact(song: Song, paths: SongPaths, context: PipelineContext): Promise<boolean> {
+  try {
+    await verifyOutput(song, paths, context);
+    return true;
+  } catch (error) {
+    // Cancelled mid-check: the file was fine when the earlier run finished it
+    if (context.signal?.aborted) {
+      return true;
+    }
+    context.log.warn(`Downloading "${song.title}" again: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return false;
+  }
+}
+
+/**
+ * Converts a downloaded audio stream to the target format with FFmpeg (transcode stage).
+ * Resolves with the output's loudness when it is measured for ReplayGain tags.
+ */
+async function convertAudio(song: Song, paths: SongPaths, context: PipelineContext): Promise<LoudnessMeasurement | undefined> {
+  const { spec, quality, loudness, signal, onProgress } = context;
+
+  onProgress?.({
+    songId: song.id,
+    title: song.title,
+    status: 'converting',
+    progress: 50,
+  });
+
+  const normalize = loudness?.mode === 'loudnorm';
+  const source = quality.capToSource || normalize ? await probeAudio(paths.tempAudioPath) : null;
+  let plans = buildEncodingPlans(quality, spec, source);
+
+  if (normalize) {
+    // Two passes: measure the source (or reuse an earlier measurement), then encode through loudnorm
+    const measurement = await measureCached(loudness.cache, loudnessKey(song.id, spec.sourceSelector), paths.tempAudioPath, signal);
+    const filter = loudnormFilter(measurement, loudness.target);
+    // loudnorm works at 192 kHz internally, so pin the output rate (libopus only takes 48 kHz)
+    const sampleRate = spec.codec === 'libopus' ? 48000 : source?.sampleRate ?? 48000;
+    plans = plans
+      .filter((plan) => !plan.copy)
+      .map((plan) => ({ ...plan, filter, sampleRate: plan.sampleRate ?? sampleRate }));
+  }
+
+  for (const [index, plan] of plans.entries()) {
+    try {
+      await runConversion(paths.tempAudioPath, paths.outputPath, spec, plan, signal);
+      break;
+    } catch (error) {
+      removeIfExists(paths.outputPath);
+
+      if (signal?.aborted) {
+        throw error;
+      }
+
+      if (index === plans.length - 1) {
+        if (plan.copy) {
+          throw new Error(`Source stream cannot be stored as ${spec.format} without transcoding`);
+        }
+        throw error;
+      }
+      // The source codec doesn't fit the container; fall back to the next plan
+    }
+  }
+
+  await verifyOutput(song, paths, context);
+
+  // Clean up temp file
+  removeIfExists(paths.tempAudioPath);
+  const measurement = await measureOutput(song, paths.outputPath, context);
+
+  onProgress?.({
+    songId: song.id,
+    title: song.title,
+    status: 'completed',
+    progress: 100,
+  });
+  return measurement;
+}
+
+function failSong(
+  song: Song,
+  paths: SongPaths,
+  error: unknown,
+  context: Pick<PipelineContext, 'onProgress' | 'log'>
+): SongResult {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  const errorKind = classifyError(error, 'download');
 
-    logger.error(`Failed to download "${song.title}": ${errorMessage}`);
+  // Never leave partial files behind
+  removeIfExists(paths.tempAudioPath);
+  removePartialDownload(paths.tempAudioPath);
+  removeIfExists(paths.outputPath);
 
-    return {
-      song,
-      filePath: '',
-      success: false,
-      error: errorMessage,
-    };
+  context.onProgress?.({
+    songId: song.id,
+    title: song.title,
+    status: 'failed',
+    progress: 0,
+    error: errorMessage,
+    errorKind,
+  });
+
+  context.log.error(`Failed to download "${song.title}" (${errorKind}): ${errorMessage}`);
+
+  return {
+    song,
+    filePath: '',
+    success: false,
+    error: errorMessage,
+    errorKind,
+  };
+}
+
+/**
+ * Cleans up after a song interrupted by cancellation.
+ * A fully downloaded source is kept so a resumed run can skip straight to conversion.
+ */
+function cancelSong(song: Song, paths: SongPaths, downloaded: boolean): SongResult {
+  removePartialDownload(paths.tempAudioPath);
+  removeIfExists(paths.outputPath);
+  if (!downloaded) {
+    removeIfExists(paths.tempAudioPath);
   }
+
+  return {
+    song,
+    filePath: '',
+    success: false,
+    cancelled: true,
+    error: 'Cancelled',
+  };
 }
 
 /**
- * Downloads multiple songs with concurrency control
+ * Creates download and conversion queues that several downloadSongs calls can share
+ */
+export function createPipelineQueues(concurrency = 5, transcodeConcurrency = 2): PipelineQueues {
+  return {
+    download: new PQueue({ concurrency }),
+    transcode: new PQueue({ concurrency: transcodeConcurrency }),
+  };
+}
+
+/**
+ * Downloads multiple songs through a two-stage pipeline.
+ *
+ * Network downloads and FFmpeg conversions run in separate queues with their own
+ * concurrency limits. A download slot waits while too many finished downloads are
+ * queued for conversion, so temp files cannot pile up faster than they are transcoded.
  */
 export async function downloadSongs(
   songs: Song[],
   options: DownloadOptions
-): Promise<DownloadResult[]> {
-  const { outputDir, concurrency = 5, cookiesFile, onProgress } = options;
+): Promise<SongResult[]> {
+  const {
+    outputDir,
+    concurrency = 5,
+    transcodeConcurrency = 2,
+    audioFormat = 'mp3',
+    quality = DEFAULT_QUALITY,
+    resumeStates = {},
+    signal,
+  } = options;
+  const { download: downloadQueue, transcode: transcodeQueue } = options.queues
+    ?? createPipelineQueues(concurrency, transcodeConcurrency);
+  const maxPendingTranscodes = options.maxPendingTranscodes ?? transcodeQueue.concurrency * 2;
+  const spec = AUDIO_FORMATS[audioFormat];
+  validateQuality(quality, spec);
+
+  const context: PipelineContext = {
+    spec,
+    quality,
+    cookiesFile: options.cookiesFile,
+    retryPolicies: resolveRetryPolicies(options.retryPolicies),
+    loudness: options.loudness,
+    verify: options.verify ?? false,
+    signal,
+    onProgress: options.onProgress,
+    log: options.log ?? silentLogger,
+  };
 
   // Ensure output directory exists
   if (!fs.existsSync(outputDir)) {
     fs.mkdirSync(outputDir, { recursive: true });
   }
 
-  // Create queue with concurrency limit
-  const queue = new PQueue({ concurrency });
-  const results: DownloadResult[] = [];
+  const songNames = assignSongNames(songs, outputDir, spec, options.outputName, options.reservedNames);
+
+  context.log.info(
+    `Starting download of ${songs.length} songs (downloads: ${downloadQueue.concurrency}, conversions: ${transcodeQueue.concurrency})`
+  );
+
+  const results = await Promise.all(
+    songs.map(async (song): Promise<SongResult> => {
+      const paths = getSongPaths(songNames.get(song)!, outputDir, spec);
+      const resumeState = resumeStates[song.id];
+
+      // Songs converted by an interrupted run only need their file to still be there (and intact)
+      if ((resumeState === 'converted' || resumeState === 'tagged') && fs.existsSync(paths.outputPath)
+        && await transcodeQueue.add(() => isIntact(song, paths, context))) {
+        const loudness = context.loudness?.mode === 'replaygain'
+          ? await transcodeQueue.add(() => measureOutput(song, paths.outputPath, context))
+          : undefined;
+        context.onProgress?.({ songId: song.id, title: song.title, status: 'completed', progress: 100 });
+        const result: SongResult = { song, filePath: paths.outputPath, success: true, loudness };
+        try {
+          await options.onSongDone?.(result);
+          return result;
+        } catch (error) {
+          return failSong(song, paths, error, context);
+        }
+      }
+
+      let downloaded = resumeState === 'downloaded' && fs.existsSync(paths.tempAudioPath);
 
-  logger.info(`Starting download of ${songs.length} songs with concurrency: ${concurrency}`);
+      try {
+        for (let attempt = 1; ; attempt++) {
+          if (!downloaded) {
+            await downloadQueue.add(async () => {
+              // Backpressure: hold this download slot until the conversion backlog drains
+              await transcodeQueue.onSizeLessThan(maxPendingTranscodes);
+              if (signal?.aborted) {
+                throw new Error('Cancelled');
+              }
+              await downloadAudio(song, paths.tempAudioPath, context);
+            });
+            downloaded = true;
+          }
+
+          try {
+            const loudness = await transcodeQueue.add(() => {
+              if (signal?.aborted) {
+                throw new Error('Cancelled');
+              }
+              return withRetries(song, 'convert', context, () => convertAudio(song, paths, context));
+            });
 
-  // Queue all downloads
-  const downloadPromises = songs.map((song) =>
-    queue.add(async () => {
-      const result = await downloadSong(song, outputDir, cookiesFile, onProgress);
-      results.push(result);
-      return result;
+            const result: SongResult = {
+              song,
+              filePath: paths.outputPath,
+              success: true,
+              loudness,
+            };
+            await options.onSongDone?.(result);
+            return result;
+          } catch (error) {
+            // A converted file that fails verification gets a fresh download
+            const policy = context.retryPolicies.corrupt;
+            if (signal?.aborted || !(error instanceof SongError) || error.kind !== 'corrupt' || attempt >= policy.attempts) {
+              throw error;
+            }
+            downloaded = false;
+            context.log.warn(`(${attempt}/${policy.attempts}) ${error.message}. Downloading "${song.title}" again`);
+            await sleep(retryDelay(policy, attempt), undefined, signal ? { signal } : {});
+          }
+        }
+      } catch (error) {
+        if (signal?.aborted) {
+          return cancelSong(song, paths, downloaded);
+        }
+        return failSong(song, paths, error, context);
+      }
     })
   );
 
-  // Wait for all downloads to complete
-  await Promise.all(downloadPromises);
-
   const successCount = results.filter((r) => r.success).length;
-  const failedCount = results.filter((r) => !r.success).length;
+  const failedCount = results.filter((r) => !r.success && !r.cancelled).length;
+  const cancelledCount = results.filter((r) => r.cancelled).length;
 
-  logger.success(`Downloads complete: ${successCount} successful, ${failedCount} failed`);
+  if (cancelledCount > 0) {
+    context.log.warn(`Downloads cancelled: ${successCount} successful, ${failedCount} failed, ${cancelledCount} not finished`);
+  } else {
+    context.log.success(`Downloads complete: ${successCount} successful, ${failedCount} failed`);
+  }
 
   return results;
 }
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { classifyError, DEFAULT_RETRY_POLICIES, parseRetryPolicy, resolveRetryPolicies, retryDelay, SongError } from './errors.js';
+
+describe('classifyError', () => {
+  it('recognizes yt-dlp error messages', () => {
+    assert.equal(classifyError(new Error('ERROR: [youtube] abc: Private video. Sign in if you have access'), 'download'), 'private');
+    assert.equal(classifyError(new Error('HTTP Error 429: Too Many Requests'), 'download'), 'rate-limited');
+    assert.equal(classifyError(new Error('Sign in to confirm your age'), 'download'), 'age-restricted');
+    assert.equal(classifyError(new Error('getaddrinfo ENOTFOUND www.youtube.com'), 'download'), 'network');
+  });
+
+  it('prefers the specific reason over a leading "Video unavailable"', () => {
+    assert.equal(classifyError(new Error('Video unavailable. This video is private'), 'download'), 'private');
+    assert.equal(
+      classifyError(new Error('Video unavailable. The uploader has not made this video available in your country'), 'download'),
+      'geo-blocked'
+    );
+    assert.equal(classifyError(new Error('Video unavailable'), 'download'), 'unavailable');
+  });
+
+  it('falls back on the stage for unknown messages', () => {
+    assert.equal(classifyError(new Error('something odd happened'), 'download'), 'unknown');
+    assert.equal(classifyError(new Error('something odd happened'), 'convert'), 'ffmpeg');
+  });
+
+  it('keeps the kind of a SongError and accepts non-Error values', () => {
+    assert.equal(classifyError(new SongError('Downloaded file is empty', 'corrupt'), 'convert'), 'corrupt');
+    assert.equal(classifyError('read ECONNRESET', 'download'), 'network');
+  });
+});
+
+describe('parseRetryPolicy', () => {
+  it('parses attempts and a delay in seconds', () => {
+    assert.deepEqual(parseRetryPolicy('rate-limited=6:60'), { 'rate-limited': { attempts: 6, delayMs: 60000 } });
+    assert.deepEqual(parseRetryPolicy('network=3:0.5'), { network: { attempts: 3, delayMs: 500 } });
+  });
+
+  it('leaves the delay out when only attempts are given', () => {
+    assert.deepEqual(parseRetryPolicy(' unknown=1 '), { unknown: { attempts: 1 } });
+  });
+
+  it('adds to earlier policies and replaces one of the same kind', () => {
+    const policies = parseRetryPolicy('network=2', parseRetryPolicy('ffmpeg=3'));
+    assert.deepEqual(parseRetryPolicy('network=5:10', policies), {
+      ffmpeg: { attempts: 3 },
+      network: { attempts: 5, delayMs: 10000 },
+    });
+  });
+
+  it('rejects unknown kinds, zero attempts and malformed specs', () => {
+    for (const spec of ['timeout=3', 'network=0', 'network', 'network=3:', 'network=-1', 'network=2:abc']) {
+      assert.throws(() => parseRetryPolicy(spec), /Invalid retry policy/, spec);
+    }
+  });
+});
+
+describe('resolveRetryPolicies', () => {
+  it('fills in the defaults and raises the cap to an explicit delay', () => {
+    const policies = resolveRetryPolicies(parseRetryPolicy('ffmpeg=3:30'));
+    assert.deepEqual(policies.ffmpeg, { attempts: 3, delayMs: 30000, backoff: 1, maxDelayMs: 30000 });
+    assert.deepEqual(policies.network, DEFAULT_RETRY_POLICIES.network);
+  });
+});
+
+describe('retryDelay', () => {
+  it('grows by the backoff factor up to the cap', () => {
+    const policy = DEFAULT_RETRY_POLICIES['rate-limited'];
+    assert.deepEqual([1, 2, 3, 4, 5].map((retry) => retryDelay(policy, retry)), [30000, 60000, 120000, 240000, 300000]);
+  });
+});
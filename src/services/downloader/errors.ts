@@ -0,0 +1,142 @@
+import type { FailureKind } from '../../types/index.js';
+
+export interface RetryPolicy {
+  // Total attempts, including the first
+  attempts: number;
+  // Wait before the first retry
+  delayMs: number;
+  // Factor the wait grows by after each retry
+  backoff: number;
+  maxDelayMs: number;
+}
+
+export type RetryPolicies = Partial<Record<FailureKind, Partial<RetryPolicy>>>;
+
+export const FAILURE_KINDS: FailureKind[] = [
+  'unavailable',
+  'private',
+  'age-restricted',
+  'geo-blocked',
+  'rate-limited',
+  'ffmpeg',
+  'corrupt',
+  'network',
+  'unknown',
+];
+
+const NO_RETRY: RetryPolicy = { attempts: 1, delayMs: 0, backoff: 1, maxDelayMs: 0 };
+
+/**
+ * Retries per failure kind. Songs that are gone, private or blocked fail the same way every time;
+ * rate limits need long, growing pauses; network errors first wait for the connection to return.
+ * A corrupt file is downloaded again from scratch.
+ */
+export const DEFAULT_RETRY_POLICIES: Record<FailureKind, RetryPolicy> = {
+  unavailable: NO_RETRY,
+  private: NO_RETRY,
+  'age-restricted': NO_RETRY,
+  'geo-blocked': NO_RETRY,
+  'rate-limited': { attempts: 4, delayMs: 30000, backoff: 2, maxDelayMs: 300000 },
+  ffmpeg: { attempts: 2, delayMs: 1000, backoff: 1, maxDelayMs: 1000 },
+  corrupt: { attempts: 2, delayMs: 2000, backoff: 1, maxDelayMs: 2000 },
+  network: { attempts: 4, delayMs: 2000, backoff: 2, maxDelayMs: 30000 },
+  unknown: { attempts: 2, delayMs: 5000, backoff: 1, maxDelayMs: 5000 },
+};
+
+// Checked in order: YouTube often prefixes the specific reason with "Video unavailable"
+const ERROR_PATTERNS: Array<[FailureKind, RegExp[]]> = [
+  ['rate-limited', [/HTTP Error 429/i, /Too Many Requests/i, /rate[- ]limit/i, /confirm you.re not a bot/i]],
+  ['private', [/Private video/i, /This video is private/i]],
+  ['age-restricted', [/confirm your age/i, /age[- ]restricted/i, /inappropriate for some users/i]],
+  ['geo-blocked', [/not (?:made this video )?available in your country/i, /blocked it in your country/i, /geo[- ]?restrict/i]],
+  ['unavailable', [/Video unavailable/i, /not available/i, /has been removed/i, /account .* terminated/i, /does not exist/i]],
+  [
+    'network',
+    [
+      /ENOTFOUND/i,
+      /EAI_AGAIN/i,
+      /ECONNRESET/i,
+      /ETIMEDOUT/i,
+      /ECONNREFUSED/i,
+      /network is unreachable/i,
+      /Temporary failure in name resolution/i,
+      /Resolving timed out/i,
+      /Connection reset/i,
+      /Read timed out/i,
+    ],
+  ],
+  ['ffmpeg', [/ffmpeg/i, /ffprobe/i]],
+];
+
+// A song failure whose kind is already known
+export class SongError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: FailureKind
+  ) {
+    super(message);
+    this.name = 'SongError';
+  }
+}
+
+/**
+ * Works out why a download or conversion failed from its error message
+ */
+export function classifyError(error: unknown, stage: 'download' | 'convert'): FailureKind {
+  if (error instanceof SongError) {
+    return error.kind;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const match = ERROR_PATTERNS.find(([, patterns]) => patterns.some((pattern) => pattern.test(message)));
+  if (match) {
+    return match[0];
+  }
+  // Anything the conversion stage throws comes from FFmpeg
+  return stage === 'convert' ? 'ffmpeg' : 'unknown';
+}
+
+/**
+ * Wait before retry number `retry` (1 for the first retry)
+ */
+export function retryDelay(policy: RetryPolicy, retry: number): number {
+  return Math.min(policy.maxDelayMs, policy.delayMs * policy.backoff ** (retry - 1));
+}
+
+/**
+ * Fills in the default policy of every kind that isn't overridden
+ */
+export function resolveRetryPolicies(overrides: RetryPolicies = {}): Record<FailureKind, RetryPolicy> {
+  const policies = { ...DEFAULT_RETRY_POLICIES };
+  for (const kind of FAILURE_KINDS) {
+    const override = overrides[kind];
+    if (override) {
+      const policy = { ...policies[kind], ...override };
+      // An explicit delay without a cap shouldn't be cut down to the old cap
+      policy.maxDelayMs = Math.max(policy.maxDelayMs, policy.delayMs);
+      policies[kind] = policy;
+    }
+  }
+  return policies;
+}
+
+/**
+ * Parses a retry policy override like "rate-limited=5:120" (5 attempts, 120 seconds before the first retry)
+ */
+export function parseRetryPolicy(spec: string, policies: RetryPolicies = {}): RetryPolicies {
+  const match = spec.trim().match(/^([a-z-]+)=(\d+)(?::(\d+(?:\.\d+)?))?$/);
+  const kind = match?.[1] as FailureKind | undefined;
+  if (!match || !kind || !FAILURE_KINDS.includes(kind) || Number(match[2]) < 1) {
+    throw new Error(
+      `Invalid retry policy "${spec}". Use <kind>=<attempts>[:<delay seconds>] with a kind of ${FAILURE_KINDS.join(', ')}`
+    );
+  }
+
+  return {
+    ...policies,
+    [kind]: {
+      attempts: Number(match[2]),
+      ...(match[3] !== undefined ? { delayMs: Number(match[3]) * 1000 } : {}),
+    },
+  };
+}
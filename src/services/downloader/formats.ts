@@ -0,0 +1,76 @@
+import type { AudioFormat } from '../../types/index.js';
+
+export interface AudioFormatSpec {
+  format: AudioFormat;
+  extension: string;
+  // FFmpeg muxer used for the output container
+  muxer: string;
+  // Encoder used when the source stream cannot be copied as-is
+  codec: string;
+  // yt-dlp format selector for the source stream
+  sourceSelector: string;
+  // Copy the source stream instead of re-encoding when the container accepts it
+  remux: boolean;
+  bitrate?: number;
+}
+
+export const AUDIO_FORMATS: Record<AudioFormat, AudioFormatSpec> = {
+  mp3: {
+    format: 'mp3',
+    extension: 'mp3',
+    muxer: 'mp3',
+    codec: 'libmp3lame',
+    sourceSelector: 'bestaudio[ext=webm]/bestaudio',
+    remux: false,
+    bitrate: 320,
+  },
+  opus: {
+    format: 'opus',
+    extension: 'opus',
+    muxer: 'opus',
+    codec: 'libopus',
+    sourceSelector: 'bestaudio[acodec=opus]/bestaudio',
+    remux: true,
+    bitrate: 160,
+  },
+  m4a: {
+    format: 'm4a',
+    extension: 'm4a',
+    muxer: 'ipod',
+    codec: 'aac',
+    sourceSelector: 'bestaudio[ext=m4a]/bestaudio',
+    remux: true,
+    bitrate: 256,
+  },
+  flac: {
+    format: 'flac',
+    extension: 'flac',
+    muxer: 'flac',
+    codec: 'flac',
+    sourceSelector: 'bestaudio[ext=webm]/bestaudio',
+    remux: false,
+  },
+  ogg: {
+    format: 'ogg',
+    extension: 'ogg',
+    muxer: 'ogg',
+    codec: 'libvorbis',
+    sourceSelector: 'bestaudio[ext=webm]/bestaudio',
+    remux: false,
+    bitrate: 320,
+  },
+};
+
+export const AUDIO_FORMAT_NAMES = Object.keys(AUDIO_FORMATS) as AudioFormat[];
+
+export function isAudioFormat(value: string): value is AudioFormat {
+  return value in AUDIO_FORMATS;
+}
+
+/**
+ * Looks up the format spec for an output file by its extension
+ */
+export function getFormatForFile(filePath: string): AudioFormatSpec | null {
+  const extension = filePath.slice(filePath.lastIndexOf('.') + 1).toLowerCase();
+  return Object.values(AUDIO_FORMATS).find((spec) => spec.extension === extension) ?? null;
+}
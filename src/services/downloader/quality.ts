@@ -0,0 +1,183 @@
+import type { AudioQuality } from '../../types/index.js';
+import type { AudioFormatSpec } from './formats.js';
+import type { AudioStreamInfo } from '../../utils/ffmpeg.js';
+
+export interface EncodingPlan {
+  // Copy the source stream instead of encoding
+  copy: boolean;
+  codec: string;
+  bitrate?: number;
+  // Codec-specific value for FFmpeg's -q:a
+  vbrQuality?: number;
+  sampleRate?: number;
+  channels?: number;
+  // FFmpeg audio filter applied while encoding, e.g. loudness normalization
+  filter?: string;
+}
+
+// Approximate average bitrate (kbps) of LAME VBR levels V0..V9
+export const LAME_VBR_BITRATES = [245, 225, 190, 175, 165, 130, 115, 100, 85, 65];
+
+// Bitrates accepted by LAME in CBR mode
+const MP3_BITRATES = [32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+
+export const DEFAULT_QUALITY: AudioQuality = { mode: 'auto' };
+
+/**
+ * Parses a quality spec from the CLI: "auto", "source", a CBR bitrate ("192", "192k") or a VBR level ("V0".."V9")
+ */
+export function parseQuality(value: string): AudioQuality {
+  const spec = value.trim().toLowerCase();
+
+  if (spec === 'auto') {
+    return { mode: 'auto' };
+  }
+
+  if (spec === 'source' || spec === 'copy') {
+    return { mode: 'source' };
+  }
+
+  const vbr = spec.match(/^v([0-9])$/);
+  if (vbr?.[1]) {
+    return { mode: 'vbr', vbrLevel: parseInt(vbr[1], 10) };
+  }
+
+  const cbr = spec.match(/^(\d+)k?$/);
+  if (cbr?.[1]) {
+    const bitrate = parseInt(cbr[1], 10);
+    if (bitrate < 32 || bitrate > 512) {
+      throw new Error(`Bitrate must be between 32k and 512k, got: ${value}`);
+    }
+    return { mode: 'cbr', bitrate };
+  }
+
+  throw new Error(`Invalid quality "${value}". Use auto, source, a bitrate like 192k, or a VBR level V0-V9`);
+}
+
+/**
+ * Checks that a quality setting can be applied to the chosen output format
+ */
+export function validateQuality(quality: AudioQuality, spec: AudioFormatSpec): void {
+  if (quality.sampleRate !== undefined && !(quality.sampleRate >= 8000 && quality.sampleRate <= 192000)) {
+    throw new Error(`Sample rate must be between 8000 and 192000 Hz, got: ${quality.sampleRate}`);
+  }
+
+  if (quality.channels !== undefined && !(quality.channels >= 1 && quality.channels <= 8)) {
+    throw new Error(`Channel count must be between 1 and 8, got: ${quality.channels}`);
+  }
+
+  if (quality.mode === 'source') {
+    if (!spec.remux) {
+      throw new Error(`--quality source keeps the original stream, which ${spec.format} cannot hold. Use --audio-format opus or m4a`);
+    }
+    if (quality.sampleRate || quality.channels) {
+      throw new Error('Sample rate and channel changes require transcoding and cannot be combined with --quality source');
+    }
+  }
+}
+
+function capMp3Bitrate(bitrate: number): number {
+  const allowed = MP3_BITRATES.filter((b) => b <= bitrate);
+  return allowed[allowed.length - 1] ?? MP3_BITRATES[0]!;
+}
+
+// Maps a LAME VBR level onto the -q:a scale of the target encoder, or null if it has none.
+function vbrQualityFor(spec: AudioFormatSpec, level: number): number | null {
+  switch (spec.codec) {
+    case 'libmp3lame':
+      return level;
+    case 'libvorbis':
+      // Vorbis runs from 0 (smallest) to 10 (best)
+      return 9 - level;
+    default:
+      return null;
+  }
+}
+
+function buildEncodePlan(quality: AudioQuality, spec: AudioFormatSpec, source: AudioStreamInfo | null): EncodingPlan {
+  const plan: EncodingPlan = { copy: false, codec: spec.codec };
+  const sourceBitrate = quality.capToSource ? source?.bitrate ?? null : null;
+
+  if (quality.sampleRate) plan.sampleRate = quality.sampleRate;
+  if (quality.channels) plan.channels = quality.channels;
+
+  // Lossless output has no bitrate to choose
+  if (spec.format === 'flac') {
+    return plan;
+  }
+
+  if (quality.mode === 'vbr' && quality.vbrLevel !== undefined) {
+    let level = quality.vbrLevel;
+    if (sourceBitrate) {
+      // Step down to the first level whose average bitrate stays within the source's
+      while (level < 9 && LAME_VBR_BITRATES[level]! > sourceBitrate) {
+        level++;
+      }
+    }
+
+    const vbrQuality = vbrQualityFor(spec, level);
+    if (vbrQuality !== null) {
+      plan.vbrQuality = vbrQuality;
+    } else {
+      // Encoders without a VBR scale get the level's average bitrate instead
+      plan.bitrate = LAME_VBR_BITRATES[level]!;
+    }
+    return plan;
+  }
+
+  let bitrate = quality.bitrate ?? spec.bitrate;
+  if (bitrate && sourceBitrate && bitrate > sourceBitrate) {
+    bitrate = sourceBitrate;
+  }
+  if (bitrate) {
+    plan.bitrate = spec.codec === 'libmp3lame' ? capMp3Bitrate(bitrate) : bitrate;
+  }
+
+  return plan;
+}
+
+/**
+ * Lists the conversions to try, in order, for a song.
+ * Remux-capable formats try a stream copy first unless the quality settings require encoding.
+ */
+export function buildEncodingPlans(
+  quality: AudioQuality,
+  spec: AudioFormatSpec,
+  source: AudioStreamInfo | null
+): EncodingPlan[] {
+  const copyPlan: EncodingPlan = { copy: true, codec: 'copy' };
+
+  if (quality.mode === 'source') {
+    return [copyPlan];
+  }
+
+  const encodePlan = buildEncodePlan(quality, spec, source);
+  const keepsStream = quality.mode === 'auto' && !quality.sampleRate && !quality.channels;
+
+  return spec.remux && keepsStream ? [copyPlan, encodePlan] : [encodePlan];
+}
+
+// Typical bitrate (kbps) of YouTube's audio streams, which a stream copy keeps as they are
+export const SOURCE_BITRATE_ESTIMATE = 130;
+// FLAC of a decoded lossy stream usually lands around this
+const FLAC_BITRATE_ESTIMATE = 900;
+
+/**
+ * Rough average bitrate (kbps) of the files a quality setting produces, for size estimates
+ */
+export function estimateBitrate(quality: AudioQuality, spec: AudioFormatSpec, reencode = false): number {
+  // Filters such as loudness normalization rule out a stream copy
+  const [plan] = buildEncodingPlans(quality, spec, null).filter((plan) => !reencode || !plan.copy);
+  if (!plan || plan.copy) {
+    return SOURCE_BITRATE_ESTIMATE;
+  }
+  if (spec.format === 'flac') {
+    return FLAC_BITRATE_ESTIMATE * (quality.channels === 1 ? 0.5 : 1);
+  }
+  if (plan.bitrate) {
+    return plan.bitrate;
+  }
+  // VBR levels have no fixed bitrate, so take the level's LAME average
+  const vbrBitrate = quality.vbrLevel !== undefined ? LAME_VBR_BITRATES[quality.vbrLevel] : undefined;
+  return vbrBitrate ?? spec.bitrate ?? SOURCE_BITRATE_ESTIMATE;
+}
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+import { createLoudnessCache, LOUDNESS_CACHE_FILENAME, loudnormFilter, replayGainFor, replayGainTags } from './loudness.js';
+import { createLogger } from '../../utils/logger.js';
+import type { LoudnessMeasurement } from '../../types/index.js';
+
+function measured(integrated: number, truePeak = -1): LoudnessMeasurement {
+  return { integrated, truePeak, range: 6, threshold: integrated - 10 };
+}
+
+// Compares gains to 0.01 dB, as they end up in the tags
+function assertClose(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 0.01, `${actual} is not close to ${expected}`);
+}
+
+describe('replayGainFor', () => {
+  it('brings each track to -18 LUFS', () => {
+    const [loud, quiet] = replayGainFor([
+      { measurement: measured(-8, 0), duration: 200 },
+      { measurement: measured(-20, -6.0206), duration: 200 },
+    ]);
+    assertClose(loud!.trackGain, -10);
+    assertClose(quiet!.trackGain, 2);
+    assertClose(loud!.trackPeak, 1);
+    assertClose(quiet!.trackPeak, 0.5);
+  });
+
+  it('gives every track the same album gain and the loudest peak', () => {
+    const gains = replayGainFor([
+      { measurement: measured(-10, -3), duration: 180 },
+      { measurement: measured(-12, 0), duration: 240 },
+    ]);
+    assert.equal(gains[0]!.albumGain, gains[1]!.albumGain);
+    assertClose(gains[0]!.albumPeak, 1);
+    assertClose(gains[1]!.albumPeak, 1);
+  });
+
+  it('averages the album loudness by energy, weighted by duration', () => {
+    // Equal lengths at -10 and -20 LUFS: 10 * log10((0.1 + 0.01) / 2) = -12.6 LUFS
+    const [even] = replayGainFor([
+      { measurement: measured(-10), duration: 100 },
+      { measurement: measured(-20), duration: 100 },
+    ]);
+    assertClose(even!.albumGain, -18 + 12.596);
+
+    // Nine times longer quiet track: 10 * log10((0.1 + 9 * 0.01) / 10) = -17.21 LUFS
+    const [weighted] = replayGainFor([
+      { measurement: measured(-10), duration: 100 },
+      { measurement: measured(-20), duration: 900 },
+    ]);
+    assertClose(weighted!.albumGain, -18 + 17.212);
+  });
+
+  it('matches the track gain for a single track', () => {
+    const [single] = replayGainFor([{ measurement: measured(-11.5), duration: 0 }]);
+    assertClose(single!.albumGain, single!.trackGain);
+  });
+
+  it('returns nothing for no tracks', () => {
+    assert.deepEqual(replayGainFor([]), []);
+  });
+});
+
+describe('replayGainTags', () => {
+  const gain = { trackGain: -4.5, trackPeak: 0.98765432, albumGain: -3.25, albumPeak: 1 };
+
+  it('writes ReplayGain fields with dB and linear peaks', () => {
+    assert.deepEqual(replayGainTags(gain, 'flac'), {
+      REPLAYGAIN_TRACK_GAIN: '-4.50 dB',
+      REPLAYGAIN_TRACK_PEAK: '0.987654',
+      REPLAYGAIN_ALBUM_GAIN: '-3.25 dB',
+      REPLAYGAIN_ALBUM_PEAK: '1.000000',
+    });
+  });
+
+  it('writes R128 gains relative to -23 LUFS in Q7.8 for Opus', () => {
+    // -4.5 dB to -18 LUFS is -9.5 dB to -23 LUFS: -9.5 * 256 = -2432
+    assert.deepEqual(replayGainTags(gain, 'opus'), { R128_TRACK_GAIN: '-2432', R128_ALBUM_GAIN: '-2112' });
+  });
+});
+
+describe('loudnormFilter', () => {
+  it('passes the measurement to the second pass', () => {
+    assert.equal(
+      loudnormFilter(measured(-9.2, -0.4), -16),
+      'loudnorm=I=-16:TP=-1:LRA=11:measured_I=-9.2:measured_TP=-0.4:measured_LRA=6:measured_thresh=-19.2:linear=true'
+    );
+  });
+});
+
+describe('createLoudnessCache', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ytpld-loudness-'));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('keeps measurements for the next run in the folder', () => {
+    createLoudnessCache(dir).set('abc:mp3', measured(-12));
+    assert.deepEqual(createLoudnessCache(dir).get('abc:mp3'), measured(-12));
+    assert.equal(createLoudnessCache(dir).get('abc:opus'), undefined);
+  });
+
+  it('starts over from an unreadable cache', () => {
+    fs.writeFileSync(path.join(dir, LOUDNESS_CACHE_FILENAME), '{ not json');
+    const warnings: string[] = [];
+    const cache = createLoudnessCache(dir, createLogger((_level, message) => warnings.push(message)));
+    assert.equal(cache.get('abc:mp3'), undefined);
+    assert.equal(warnings.length, 1);
+  });
+});
@@ -0,0 +1,208 @@
+import fs from 'fs';
+import path from 'path';
+import { ffmpeg } from '../../utils/ffmpeg.js';
+import { silentLogger, type Logger } from '../../utils/logger.js';
+import type { AudioFormat, LoudnessMeasurement } from '../../types/index.js';
+
+export const LOUDNESS_CACHE_FILENAME = '.ytpld-loudness.json';
+const LOUDNESS_CACHE_VERSION = 1;
+
+// Integrated loudness loudnorm aims for unless told otherwise; what streaming services play at
+export const DEFAULT_LOUDNESS_TARGET = -14;
+// True peak ceiling and loudness range loudnorm keeps tracks within
+const TRUE_PEAK_LIMIT = -1;
+const LOUDNESS_RANGE_TARGET = 11;
+// Reference levels of ReplayGain 2.0 and of the R128 gain tags Opus players read
+const REPLAYGAIN_REFERENCE = -18;
+const R128_REFERENCE = -23;
+// Silence measures as -inf; clamp it so it can be stored and computed with
+const LOUDNESS_FLOOR = -70;
+
+export interface LoudnessCache {
+  // Measurement stored under a key, from this run or an earlier one
+  get(key: string): LoudnessMeasurement | undefined;
+  set(key: string, measurement: LoudnessMeasurement): void;
+}
+
+// ReplayGain values of one track: gains in dB, peaks as linear sample values
+export interface ReplayGain {
+  trackGain: number;
+  trackPeak: number;
+  albumGain: number;
+  albumPeak: number;
+}
+
+interface LoudnessCacheFile {
+  version: number;
+  measurements: Record<string, LoudnessMeasurement>;
+}
+
+/**
+ * Key of a measurement: the video and which of its streams (a source selector or an output format) was measured
+ */
+export function loudnessKey(songId: string, stream: string): string {
+  return `${songId}:${stream}`;
+}
+
+/**
+ * Opens the measurement cache kept in a folder, so re-runs and syncs into it skip the analysis pass.
+ * Every new measurement is saved right away; an unreadable cache starts over empty.
+ */
+export function createLoudnessCache(dir: string, log: Logger = silentLogger): LoudnessCache {
+  const cachePath = path.join(dir, LOUDNESS_CACHE_FILENAME);
+  let measurements: Record<string, LoudnessMeasurement> = {};
+
+  try {
+    if (fs.existsSync(cachePath)) {
+      const cache = JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as LoudnessCacheFile;
+      if (cache.version === LOUDNESS_CACHE_VERSION && cache.measurements) {
+        measurements = cache.measurements;
+      }
+    }
+  } catch (error) {
+    log.warn(`Ignoring unreadable loudness cache ${cachePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return {
+    get: (key) => measurements[key],
+    set: (key, measurement) => {
+      measurements[key] = measurement;
+      try {
+        const cache: LoudnessCacheFile = { version: LOUDNESS_CACHE_VERSION, measurements };
+        const tempPath = `${cachePath}.tmp`;
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(tempPath, JSON.stringify(cache, null, 2));
+        fs.renameSync(tempPath, cachePath);
+      } catch (error) {
+        // Losing the cache only costs a second analysis next time
+        log.warn(`Could not save the loudness cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+  };
+}
+
+// Reads one value of loudnorm's JSON report, clamping -inf from silent files
+function readLoudnormValue(report: Record<string, string>, key: string): number {
+  const value = Number(report[key]);
+  if (Number.isNaN(value)) {
+    throw new Error(`FFmpeg loudnorm report is missing ${key}`);
+  }
+  return Math.max(LOUDNESS_FLOOR, value);
+}
+
+/**
+ * Measures a file's loudness with a first loudnorm pass that decodes it without writing anything
+ */
+export function measureLoudness(filePath: string, signal?: AbortSignal): Promise<LoudnessMeasurement> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Cancelled'));
+      return;
+    }
+
+    const command = ffmpeg(filePath)
+      .noVideo()
+      .audioFilters(`loudnorm=I=${DEFAULT_LOUDNESS_TARGET}:TP=${TRUE_PEAK_LIMIT}:LRA=${LOUDNESS_RANGE_TARGET}:print_format=json`)
+      .format('null');
+    const onAbort = () => command.kill('SIGKILL');
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    command
+      .on('end', (_stdout: string | null, stderr: string | null) => {
+        signal?.removeEventListener('abort', onAbort);
+        // The report is the last JSON object FFmpeg prints
+        const json = stderr?.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+        try {
+          const report = JSON.parse(json ?? '') as Record<string, string>;
+          resolve({
+            integrated: readLoudnormValue(report, 'input_i'),
+            truePeak: readLoudnormValue(report, 'input_tp'),
+            range: readLoudnormValue(report, 'input_lra'),
+            threshold: readLoudnormValue(report, 'input_thresh'),
+          });
+        } catch (error) {
+          reject(new Error(`FFmpeg loudness analysis failed: ${error instanceof Error ? error.message : 'no report'}`));
+        }
+      })
+      .on('error', (err: Error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(signal?.aborted ? new Error('Cancelled') : err);
+      })
+      .save('-');
+  });
+}
+
+/**
+ * Measures a file's loudness unless the cache already holds the measurement
+ */
+export async function measureCached(
+  cache: LoudnessCache,
+  key: string,
+  filePath: string,
+  signal?: AbortSignal
+): Promise<LoudnessMeasurement> {
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const measurement = await measureLoudness(filePath, signal);
+  cache.set(key, measurement);
+  return measurement;
+}
+
+/**
+ * The second loudnorm pass: brings a measured file to the target loudness, linearly where the
+ * true peak limit allows it
+ */
+export function loudnormFilter(measurement: LoudnessMeasurement, target: number = DEFAULT_LOUDNESS_TARGET): string {
+  return [
+    `loudnorm=I=${target}`,
+    `TP=${TRUE_PEAK_LIMIT}`,
+    `LRA=${LOUDNESS_RANGE_TARGET}`,
+    `measured_I=${measurement.integrated}`,
+    `measured_TP=${measurement.truePeak}`,
+    `measured_LRA=${measurement.range}`,
+    `measured_thresh=${measurement.threshold}`,
+    'linear=true',
+  ].join(':');
+}
+
+/**
+ * Works out ReplayGain values for tracks released together. The album loudness is the
+ * duration-weighted energy average of the tracks, so long tracks count for more.
+ */
+export function replayGainFor(tracks: Array<{ measurement: LoudnessMeasurement; duration: number }>): ReplayGain[] {
+  const weights = tracks.map((track) => Math.max(1, track.duration));
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+  const energy = tracks.reduce((total, track, index) => total + weights[index]! * 10 ** (track.measurement.integrated / 10), 0);
+  const albumLoudness = tracks.length > 0 ? 10 * Math.log10(energy / totalWeight) : REPLAYGAIN_REFERENCE;
+  const albumPeak = Math.max(0, ...tracks.map((track) => 10 ** (track.measurement.truePeak / 20)));
+
+  return tracks.map((track) => ({
+    trackGain: REPLAYGAIN_REFERENCE - track.measurement.integrated,
+    trackPeak: 10 ** (track.measurement.truePeak / 20),
+    albumGain: REPLAYGAIN_REFERENCE - albumLoudness,
+    albumPeak,
+  }));
+}
+
+/**
+ * Tag fields for ReplayGain values. Opus players read R128 gains (Q7.8 fixed point relative to
+ * -23 LUFS) instead, which carry no peaks.
+ */
+export function replayGainTags(gain: ReplayGain, format: AudioFormat): Record<string, string> {
+  if (format === 'opus') {
+    const r128 = (replayGain: number) => `${Math.round((replayGain + R128_REFERENCE - REPLAYGAIN_REFERENCE) * 256)}`;
+    return {
+      R128_TRACK_GAIN: r128(gain.trackGain),
+      R128_ALBUM_GAIN: r128(gain.albumGain),
+    };
+  }
+
+  return {
+    REPLAYGAIN_TRACK_GAIN: `${gain.trackGain.toFixed(2)} dB`,
+    REPLAYGAIN_TRACK_PEAK: gain.trackPeak.toFixed(6),
+    REPLAYGAIN_ALBUM_GAIN: `${gain.albumGain.toFixed(2)} dB`,
+    REPLAYGAIN_ALBUM_PEAK: gain.albumPeak.toFixed(6),
+  };
+}
@@ -0,0 +1,186 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import https from 'https';
+import { ffmpeg } from '../../utils/ffmpeg.js';
+import { silentLogger, type Logger } from '../../utils/logger.js';
+import type { Song } from '../../types/index.js';
+
+export interface CoverArt {
+  mime: string;
+  data: Buffer;
+}
+
+export type ImageType = 'jpeg' | 'png' | 'webp' | 'gif';
+
+export interface CoverCache {
+  // Resolves the processed cover for a song, downloading each image at most once
+  getCover(song: Song): Promise<CoverArt | null>;
+  // Resolves the processed cover for a URL
+  getCoverByUrl(url: string): Promise<CoverArt | null>;
+}
+
+export const COVER_FILENAME = 'cover.jpg';
+
+// Largest edge of an embedded cover, in pixels
+const MAX_COVER_SIZE = 1200;
+const MAX_REDIRECTS = 5;
+// A thumbnail server that sends nothing for this long is given up on
+const FETCH_TIMEOUT_MS = 15000;
+
+/**
+ * Detects an image's real type from its magic bytes
+ */
+export function detectImageType(data: Buffer): ImageType | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  if (data.length >= 6 && /^GIF8[79]a$/.test(data.toString('ascii', 0, 6))) {
+    return 'gif';
+  }
+  return null;
+}
+
+/**
+ * Downloads an image, following redirects; resolves null on errors and stalled connections
+ */
+export function fetchImage(url: string, redirects = 0): Promise<Buffer | null> {
+  return new Promise((resolve) => {
+    const client = url.startsWith('http:') ? http : https;
+
+    const req = client
+      .get(url, { headers: { 'User-Agent': 'Mozilla/5.0' }, timeout: FETCH_TIMEOUT_MS }, (response) => {
+        const status = response.statusCode ?? 0;
+
+        if (status >= 300 && status < 400 && response.headers.location) {
+          response.resume();
+          if (redirects >= MAX_REDIRECTS) {
+            resolve(null);
+            return;
+          }
+          const nextUrl = new URL(response.headers.location, url).toString();
+          fetchImage(nextUrl, redirects + 1).then(resolve);
+          return;
+        }
+
+        if (status !== 200) {
+          response.resume();
+          resolve(null);
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk) => chunks.push(chunk));
+        response.on('end', () => resolve(Buffer.concat(chunks)));
+        response.on('error', () => resolve(null));
+      })
+      .on('error', () => resolve(null));
+
+    // The timeout also covers a response body that stops arriving
+    req.on('timeout', () => {
+      req.destroy();
+      resolve(null);
+    });
+  });
+}
+
+/**
+ * Converts an image to a centered square JPEG no larger than MAX_COVER_SIZE.
+ * YouTube thumbnails are often 16:9 WebP with the square artwork between black bars.
+ */
+export async function processCover(data: Buffer, log: Logger = silentLogger): Promise<CoverArt | null> {
+  const type = detectImageType(data);
+  if (!type) {
+    return null;
+  }
+
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ytpld-cover-'));
+  const inputPath = path.join(workDir, `source.${type}`);
+  const outputPath = path.join(workDir, COVER_FILENAME);
+
+  try {
+    fs.writeFileSync(inputPath, data);
+
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(inputPath)
+        .videoFilters([
+          'crop=min(iw\\,ih):min(iw\\,ih)',
+          `scale=min(${MAX_COVER_SIZE}\\,iw):min(${MAX_COVER_SIZE}\\,ih)`,
+        ])
+        .outputOptions(['-frames:v', '1', '-q:v', '2'])
+        .format('image2')
+        .on('end', () => resolve())
+        .on('error', (err: Error) => reject(err))
+        .save(outputPath);
+    });
+
+    return { mime: 'image/jpeg', data: fs.readFileSync(outputPath) };
+  } catch (error) {
+    // Embed the original when it is already a format every player understands
+    if (type === 'jpeg' || type === 'png') {
+      return { mime: `image/${type}`, data };
+    }
+    log.warn(`Could not convert ${type} cover art: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return null;
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Creates a per-run cover cache keyed by album (when known) and by URL
+ */
+export function createCoverCache(log: Logger = silentLogger): CoverCache {
+  const byUrl = new Map<string, Promise<CoverArt | null>>();
+  const byAlbum = new Map<string, Promise<CoverArt | null>>();
+
+  const getCoverByUrl = (url: string): Promise<CoverArt | null> => {
+    let cover = byUrl.get(url);
+    if (!cover) {
+      cover = fetchImage(url).then((data) => (data ? processCover(data, log) : null));
+      byUrl.set(url, cover);
+    }
+    return cover;
+  };
+
+  const getCover = (song: Song): Promise<CoverArt | null> => {
+    if (!song.coverUrl) {
+      return Promise.resolve(null);
+    }
+
+    // Every track of an album shares one cover, even when YouTube serves it from different URLs
+    if (song.album) {
+      const albumKey = `${song.albumArtist ?? ''}\u0000${song.album}`;
+      let cover = byAlbum.get(albumKey);
+      if (!cover) {
+        cover = getCoverByUrl(song.coverUrl);
+        byAlbum.set(albumKey, cover);
+      }
+      return cover;
+    }
+
+    return getCoverByUrl(song.coverUrl);
+  };
+
+  return { getCover, getCoverByUrl };
+}
+
+/**
+ * Writes cover.jpg into a folder for players and file browsers that look for it
+ */
+export function writeFolderCover(folder: string, cover: CoverArt | null): boolean {
+  if (!cover || cover.mime !== 'image/jpeg') {
+    return false;
+  }
+
+  fs.mkdirSync(folder, { recursive: true });
+  fs.writeFileSync(path.join(folder, COVER_FILENAME), cover.data);
+  return true;
+}
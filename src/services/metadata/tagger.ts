@@ -1,63 +1,213 @@
 import fs from 'fs';
-import https from 'https';
+import path from 'path';
 import NodeID3 from 'node-id3';
-import type { Song } from '../../types/index.js';
-import { logger } from '../../utils/logger.js';
+import type { Song, TrackTags } from '../../types/index.js';
+import { silentLogger, type Logger } from '../../utils/logger.js';
+import { ffmpeg } from '../../utils/ffmpeg.js';
+import { getFormatForFile, type AudioFormatSpec } from '../downloader/formats.js';
+import { createCoverCache, type CoverArt, type CoverCache } from './cover.js';
+import { replayGainTags, type ReplayGain } from '../loudness/loudness.js';
 
 /**
- * Downloads cover art from URL
+ * Builds a FLAC METADATA_BLOCK_PICTURE, the cover art format used in Vorbis comments
  */
-async function downloadCoverArt(url: string): Promise<Buffer | null> {
-  return new Promise((resolve) => {
-    https
-      .get(url, (response) => {
-        const chunks: Buffer[] = [];
-        response.on('data', (chunk) => chunks.push(chunk));
-        response.on('end', () => resolve(Buffer.concat(chunks)));
-        response.on('error', () => resolve(null));
-      })
-      .on('error', () => resolve(null));
-  });
+function buildPictureBlock(cover: CoverArt): Buffer {
+  const mime = Buffer.from(cover.mime, 'utf-8');
+  const description = Buffer.from('Cover', 'utf-8');
+  const block = Buffer.alloc(32 + mime.length + description.length + cover.data.length);
+  let offset = 0;
+
+  offset = block.writeUInt32BE(3, offset); // front cover
+  offset = block.writeUInt32BE(mime.length, offset);
+  offset += mime.copy(block, offset);
+  offset = block.writeUInt32BE(description.length, offset);
+  offset += description.copy(block, offset);
+  // Width, height, colour depth and palette size may be left as zero
+  offset = block.writeUInt32BE(0, offset);
+  offset = block.writeUInt32BE(0, offset);
+  offset = block.writeUInt32BE(0, offset);
+  offset = block.writeUInt32BE(0, offset);
+  offset = block.writeUInt32BE(cover.data.length, offset);
+  cover.data.copy(block, offset);
+
+  return block;
+}
+
+// Formats a track number as "n" or "n/total"
+function formatTrackNumber(song: Song): string | undefined {
+  if (!song.trackNumber) {
+    return undefined;
+  }
+  return song.trackTotal ? `${song.trackNumber}/${song.trackTotal}` : `${song.trackNumber}`;
 }
 
 /**
- * Adds ID3 metadata tags to an MP3 file
+ * The tags a song's file gets, whichever container it is written to
  */
-export async function addMetadata(filePath: string, song: Song): Promise<boolean> {
-  try {
-    const tags: NodeID3.Tags = {
-      title: song.title,
-      artist: song.artist,
+export function songTags(song: Song): TrackTags {
+  const tags: TrackTags = { title: song.title, artist: song.artist };
+  const trackNumber = formatTrackNumber(song);
+  if (song.album) tags.album = song.album;
+  if (song.albumArtist) tags.albumArtist = song.albumArtist;
+  if (trackNumber) tags.track = trackNumber;
+  if (song.year) tags.year = song.year;
+  if (song.genre) tags.genre = song.genre;
+  return tags;
+}
+
+// Escapes a value for FFmpeg's FFMETADATA1 file format
+function escapeFfmetadata(value: string): string {
+  return value.replace(/[=;#\\\n]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Writes ID3 tags to an MP3 file
+ */
+function writeId3Tags(filePath: string, song: Song, cover: CoverArt | null, extraFields: Record<string, string>): boolean {
+  const fields = songTags(song);
+  const tags: NodeID3.Tags = {
+    title: fields.title,
+    artist: fields.artist,
+  };
+
+  if (fields.album) tags.album = fields.album; // TALB
+  if (fields.albumArtist) tags.performerInfo = fields.albumArtist; // TPE2
+  if (fields.track) tags.trackNumber = fields.track; // TRCK
+  if (fields.year) tags.year = `${fields.year}`; // TYER
+  if (fields.genre) tags.genre = fields.genre; // TCON
+  if (Object.keys(extraFields).length > 0) {
+    // TXXX frames, the way ReplayGain scanners store their values
+    tags.userDefinedText = Object.entries(extraFields).map(([description, value]) => ({ description, value }));
+  }
+
+  if (cover) {
+    tags.image = {
+      mime: cover.mime,
+      type: {
+        id: 3,
+        name: 'front cover',
+      },
+      description: 'Cover',
+      imageBuffer: cover.data,
     };
+  }
+
+  return NodeID3.write(tags, filePath) === true;
+}
+
+/**
+ * Writes container-native tags (Vorbis comments, MP4 atoms or FLAC blocks) by remuxing with FFmpeg
+ */
+async function writeContainerTags(
+  filePath: string,
+  spec: AudioFormatSpec,
+  song: Song,
+  cover: CoverArt | null,
+  extraFields: Record<string, string>
+): Promise<void> {
+  const metadataPath = `${filePath}.ffmeta`;
+  const coverPath = `${filePath}.cover.${cover?.mime === 'image/png' ? 'png' : 'jpg'}`;
+  const taggedPath = `${filePath}.tagged`;
+
+  // FFmpeg maps these generic keys onto each container's native tag names
+  const tags = songTags(song);
+  const fields: Record<string, string> = {
+    title: tags.title,
+    artist: tags.artist,
+  };
 
-    // Download and attach cover art if available
-    if (song.coverUrl) {
-      const coverBuffer = await downloadCoverArt(song.coverUrl);
-      if (coverBuffer) {
-        tags.image = {
-          mime: 'image/jpeg',
-          type: {
-            id: 3,
-            name: 'front cover',
-          },
-          description: 'Cover',
-          imageBuffer: coverBuffer,
-        };
+  if (tags.album) fields.album = tags.album;
+  if (tags.albumArtist) fields.album_artist = tags.albumArtist;
+  if (tags.track) fields.track = tags.track;
+  if (tags.year) fields.date = `${tags.year}`;
+  if (tags.genre) fields.genre = tags.genre;
+  Object.assign(fields, extraFields);
+
+  // Ogg containers carry cover art inside a Vorbis comment; MP4 and FLAC take an attached picture stream
+  const embedPictureStream = cover !== null && spec.muxer !== 'ogg' && spec.muxer !== 'opus';
+  if (cover && !embedPictureStream) {
+    fields.METADATA_BLOCK_PICTURE = buildPictureBlock(cover).toString('base64');
+  }
+
+  const metadata = [';FFMETADATA1']
+    .concat(Object.entries(fields).map(([key, value]) => `${key}=${escapeFfmetadata(value)}`))
+    .join('\n');
+
+  try {
+    fs.writeFileSync(metadataPath, `${metadata}\n`);
+    if (cover && embedPictureStream) {
+      fs.writeFileSync(coverPath, cover.data);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg(filePath).input(metadataPath).inputFormat('ffmetadata');
+      const outputOptions = ['-map', '0:a', '-map_metadata', '1', '-c', 'copy'];
+      if (spec.muxer === 'ipod' && Object.keys(extraFields).length > 0) {
+        // MP4 only keeps keys outside its fixed atom set with this flag
+        outputOptions.push('-movflags', 'use_metadata_tags');
+      }
+
+      if (cover && embedPictureStream) {
+        command.input(coverPath);
+        outputOptions.push('-map', '2:v', '-disposition:v:0', 'attached_pic');
+      }
+
+      command
+        .outputOptions(outputOptions)
+        .format(spec.muxer)
+        .on('end', () => resolve())
+        .on('error', (err: Error) => reject(err))
+        .save(taggedPath);
+    });
+
+    fs.renameSync(taggedPath, filePath);
+  } finally {
+    for (const tempPath of [metadataPath, coverPath, taggedPath]) {
+      if (fs.existsSync(tempPath)) {
+        fs.unlinkSync(tempPath);
       }
     }
+  }
+}
+
+export interface TagOptions {
+  // Shares cover downloads between files (default: a new cache)
+  covers?: CoverCache | undefined;
+  replayGain?: ReplayGain | undefined;
+  // Receives the reasons a file could not be tagged (default: dropped)
+  log?: Logger | undefined;
+}
 
-    // Write tags to file
-    const success = NodeID3.write(tags, filePath);
-    
-    if (!success) {
-      logger.warn(`Failed to write metadata for: ${song.title}`);
+/**
+ * Adds metadata tags to an audio file in the tag format of its container, with ReplayGain values when given
+ */
+export async function addMetadata(filePath: string, song: Song, options: TagOptions = {}): Promise<boolean> {
+  const { log = silentLogger, replayGain } = options;
+  const covers = options.covers ?? createCoverCache(log);
+  try {
+    const spec = getFormatForFile(filePath);
+    if (!spec) {
+      log.warn(`Unsupported file type for metadata: ${path.basename(filePath)}`);
       return false;
     }
 
+    // Download cover art if available (once per album or URL)
+    const cover = await covers.getCover(song);
+    const extraFields = replayGain ? replayGainTags(replayGain, spec.format) : {};
+
+    if (spec.format === 'mp3') {
+      if (!writeId3Tags(filePath, song, cover, extraFields)) {
+        log.warn(`Failed to write metadata for: ${song.title}`);
+        return false;
+      }
+    } else {
+      await writeContainerTags(filePath, spec, song, cover, extraFields);
+    }
+
     return true;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    logger.error(`Error adding metadata to "${song.title}": ${errorMessage}`);
+    log.error(`Error adding metadata to "${song.title}": ${errorMessage}`);
     return false;
   }
 }
@@ -66,15 +216,19 @@ export async function addMetadata(filePath: string, song: Song): Promise<boolean
  * Adds metadata to multiple files
  */
 export async function addMetadataToFiles(
-  files: Array<{ filePath: string; song: Song }>
+  files: Array<{ filePath: string; song: Song; replayGain?: ReplayGain | undefined }>,
+  options: { covers?: CoverCache; onTagged?: (song: Song) => void; log?: Logger } = {}
 ): Promise<void> {
-  logger.info(`Adding metadata to ${files.length} files...`);
+  const { log = silentLogger, onTagged } = options;
+  const covers = options.covers ?? createCoverCache(log);
+  log.info(`Adding metadata to ${files.length} files...`);
 
-  for (const { filePath, song } of files) {
+  for (const { filePath, song, replayGain } of files) {
     if (fs.existsSync(filePath)) {
-      await addMetadata(filePath, song);
+      await addMetadata(filePath, song, { covers, replayGain, log });
+      onTagged?.(song);
     }
   }
 
-  logger.success('Metadata addition complete');
+  log.success('Metadata addition complete');
 }
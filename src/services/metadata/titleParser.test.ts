@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildTitleRules, cleanChannelName, parseVideoTitle, stripTitleNoise } from './titleParser.js';
+
+describe('cleanChannelName', () => {
+  it('removes " - Topic", VEVO and Official suffixes', () => {
+    assert.equal(cleanChannelName('Daft Punk - Topic'), 'Daft Punk');
+    assert.equal(cleanChannelName('AdeleVEVO'), 'Adele');
+    assert.equal(cleanChannelName('Muse Official'), 'Muse');
+  });
+
+  it('keeps names without a suffix', () => {
+    assert.equal(cleanChannelName('Radiohead'), 'Radiohead');
+  });
+
+  it('keeps the original name when nothing would be left', () => {
+    assert.equal(cleanChannelName('VEVO'), 'VEVO');
+  });
+});
+
+describe('stripTitleNoise', () => {
+  it('removes bracketed and trailing noise', () => {
+    assert.equal(stripTitleNoise('Song (Official Music Video) [HD]'), 'Song');
+    assert.equal(stripTitleNoise('Song (Lyrics)'), 'Song');
+    assert.equal(stripTitleNoise('Song | Official Video'), 'Song');
+    assert.equal(stripTitleNoise('Song (2011 Remastered)'), 'Song');
+  });
+
+  it('keeps brackets that are part of the title', () => {
+    assert.equal(stripTitleNoise('Song (Live at Wembley)'), 'Song (Live at Wembley)');
+    assert.equal(stripTitleNoise('Song (Acoustic)'), 'Song (Acoustic)');
+  });
+});
+
+describe('parseVideoTitle', () => {
+  it('splits "Artist - Title" and drops the noise', () => {
+    assert.deepEqual(parseVideoTitle('Artist - Song (Official Music Video) [HD]', 'ArtistVEVO'), {
+      artist: 'Artist',
+      title: 'Song',
+    });
+  });
+
+  it('accepts the other separators', () => {
+    assert.deepEqual(parseVideoTitle('Artist – Song', 'Channel'), { artist: 'Artist', title: 'Song' });
+    assert.deepEqual(parseVideoTitle('Artist ~ Song', 'Channel'), { artist: 'Artist', title: 'Song' });
+  });
+
+  it('splits at the first separator only', () => {
+    assert.deepEqual(parseVideoTitle('Artist - Song - Radio Edit', 'Channel'), {
+      artist: 'Artist',
+      title: 'Song - Radio Edit',
+    });
+  });
+
+  it('uses the cleaned channel name when the title has no separator', () => {
+    assert.deepEqual(parseVideoTitle('Song (Official Audio)', 'Artist - Topic'), { artist: 'Artist', title: 'Song' });
+  });
+
+  it('does not split on a hyphen inside a word', () => {
+    assert.deepEqual(parseVideoTitle('Jay-Z Interview', 'Channel'), { artist: 'Channel', title: 'Jay-Z Interview' });
+  });
+
+  it('strips quotes around the title', () => {
+    assert.deepEqual(parseVideoTitle('Artist - "Song"', 'Channel'), { artist: 'Artist', title: 'Song' });
+  });
+
+  it('moves featuring credits from the title into the artist', () => {
+    assert.deepEqual(parseVideoTitle('Artist - Song (feat. Guest)', 'Channel'), { artist: 'Artist, Guest', title: 'Song' });
+    assert.deepEqual(parseVideoTitle('Artist - Song ft. Guest', 'Channel'), { artist: 'Artist, Guest', title: 'Song' });
+  });
+
+  it('moves featuring credits from the artist part as well', () => {
+    assert.deepEqual(parseVideoTitle('Artist feat. Guest - Song', 'Channel'), { artist: 'Artist, Guest', title: 'Song' });
+  });
+
+  it('leaves featuring credits in place when the rules say so', () => {
+    const rules = { ...buildTitleRules(), extractFeaturing: false };
+    assert.deepEqual(parseVideoTitle('Artist - Song (feat. Guest)', 'Channel', rules), {
+      artist: 'Artist',
+      title: 'Song (feat. Guest)',
+    });
+  });
+
+  it('falls back to the raw title and "Unknown Artist"', () => {
+    assert.deepEqual(parseVideoTitle('[HD]', ''), { artist: 'Unknown Artist', title: '[HD]' });
+  });
+});
+
+describe('buildTitleRules', () => {
+  it('adds extra noise patterns to the defaults', () => {
+    const rules = buildTitleRules(['\\(Live at .*?\\)']);
+    assert.deepEqual(parseVideoTitle('Artist - Song (Live at Wembley) [HD]', 'Channel', rules), {
+      artist: 'Artist',
+      title: 'Song',
+    });
+  });
+
+  it('rejects invalid patterns', () => {
+    assert.throws(() => buildTitleRules(['(']), /Invalid title noise pattern "\("/);
+  });
+});
@@ -0,0 +1,158 @@
+export interface TitleParserRules {
+  // Separators between artist and title, tried in order ("Artist - Title")
+  separators: string[];
+  // Noise removed from titles, e.g. "(Official Music Video)" or "[HD]"
+  noisePatterns: RegExp[];
+  // Suffixes removed from channel names, e.g. "SomeArtist - Topic" or "SomeArtistVEVO"
+  channelSuffixes: RegExp[];
+  // Move "feat./ft." credits from the title into the artist field
+  extractFeaturing: boolean;
+}
+
+export interface ParsedTitle {
+  artist: string;
+  title: string;
+}
+
+const NOISE_WORDS = [
+  'official\\s+(?:music\\s+|lyric\\s+|hd\\s+)?(?:video|audio|visuali[sz]er)',
+  'official',
+  'music\\s+video',
+  'lyric\\s+video',
+  'lyrics?',
+  'audio',
+  'video',
+  'visuali[sz]er',
+  'hd',
+  'hq',
+  '4k',
+  'explicit',
+  'clean',
+  'remastered(?:\\s+\\d{4})?',
+  '\\d{4}\\s+remaster(?:ed)?',
+  'video\\s+oficial',
+  'm/?v',
+];
+
+export const DEFAULT_TITLE_RULES: TitleParserRules = {
+  separators: [' - ', ' – ', ' — ', ' ~ ', ' | '],
+  noisePatterns: [
+    // Bracketed noise: "(Official Video)", "[HD]", "(Lyrics)"
+    new RegExp(`\\s*[([](?:${NOISE_WORDS.join('|')})[)\\]]`, 'gi'),
+    // Trailing noise after a bar: "Song | Official Video"
+    new RegExp(`\\s*\\|\\s*(?:${NOISE_WORDS.join('|')})\\s*$`, 'gi'),
+  ],
+  channelSuffixes: [/\s*-\s*Topic$/i, /\s*VEVO$/i, /\s*Official$/i],
+  extractFeaturing: true,
+};
+
+const FEATURING_PATTERN = /\s*[([]?\s*\b(?:feat\.?|ft\.?|featuring)\s+([^)\]]+?)\s*[)\]]?\s*$/i;
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+// Strips matching quotes around a title: "Song" or 'Song'
+function stripQuotes(value: string): string {
+  const match = value.match(/^["'“‘](.+)["'”’]$/);
+  return match?.[1] ?? value;
+}
+
+// Splits a trailing featuring credit off a string
+function splitFeaturing(value: string): { main: string; featured: string | null } {
+  const match = value.match(FEATURING_PATTERN);
+  if (!match?.[1] || match.index === undefined || match.index === 0) {
+    return { main: value, featured: null };
+  }
+  return { main: value.slice(0, match.index), featured: collapseWhitespace(match[1]) };
+}
+
+/**
+ * Removes channel suffixes such as " - Topic" and "VEVO" from a channel name
+ */
+export function cleanChannelName(channel: string, rules: TitleParserRules = DEFAULT_TITLE_RULES): string {
+  let cleaned = channel;
+  for (const suffix of rules.channelSuffixes) {
+    cleaned = cleaned.replace(suffix, '');
+  }
+  return collapseWhitespace(cleaned) || channel;
+}
+
+/**
+ * Removes noise such as "(Official Music Video)" from a title
+ */
+export function stripTitleNoise(title: string, rules: TitleParserRules = DEFAULT_TITLE_RULES): string {
+  let cleaned = title;
+  for (const pattern of rules.noisePatterns) {
+    cleaned = cleaned.replace(pattern, '');
+  }
+  return collapseWhitespace(cleaned) || title;
+}
+
+/**
+ * Parses a raw YouTube video title into artist and title.
+ * "Artist - Song (Official Music Video) [HD]" by "ArtistVEVO" becomes { artist: "Artist", title: "Song" };
+ * titles without a separator keep the cleaned channel name as the artist.
+ */
+export function parseVideoTitle(
+  rawTitle: string,
+  channel: string,
+  rules: TitleParserRules = DEFAULT_TITLE_RULES
+): ParsedTitle {
+  let artist = cleanChannelName(channel, rules);
+  let title = stripTitleNoise(rawTitle, rules);
+
+  for (const separator of rules.separators) {
+    const index = title.indexOf(separator);
+    if (index > 0 && index < title.length - separator.length) {
+      artist = collapseWhitespace(title.slice(0, index));
+      title = collapseWhitespace(title.slice(index + separator.length));
+      break;
+    }
+  }
+
+  title = stripQuotes(title);
+
+  if (rules.extractFeaturing) {
+    const featuredArtists: string[] = [];
+
+    const fromArtist = splitFeaturing(artist);
+    if (fromArtist.featured) {
+      artist = collapseWhitespace(fromArtist.main);
+      featuredArtists.push(fromArtist.featured);
+    }
+
+    const fromTitle = splitFeaturing(title);
+    if (fromTitle.featured) {
+      title = collapseWhitespace(fromTitle.main);
+      featuredArtists.push(fromTitle.featured);
+    }
+
+    if (featuredArtists.length > 0) {
+      artist = [artist, ...featuredArtists].join(', ');
+    }
+  }
+
+  return {
+    artist: artist || 'Unknown Artist',
+    title: title || rawTitle,
+  };
+}
+
+/**
+ * Builds parser rules from the defaults plus extra noise patterns given as regex sources
+ */
+export function buildTitleRules(extraNoise: string[] = []): TitleParserRules {
+  const extraPatterns = extraNoise.map((source) => {
+    try {
+      return new RegExp(source, 'gi');
+    } catch (error) {
+      throw new Error(`Invalid title noise pattern "${source}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  return {
+    ...DEFAULT_TITLE_RULES,
+    noisePatterns: [...DEFAULT_TITLE_RULES.noisePatterns, ...extraPatterns],
+  };
+}
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import PQueue from 'p-queue';
+import { createPipelineQueues } from '../downloader/downloader.js';
+import { downloadPlaylist, type DownloadPlaylistOptions } from './download.js';
+import { syncPlaylist, type SyncPlaylistOptions } from './sync.js';
+import { emitEvent, type DownloadEvents } from './events.js';
+import type { PipelineOptions } from './common.js';
+import type { BatchItemResult } from '../../types/index.js';
+
+export interface BatchOptions {
+  // Playlists processed at the same time (default 2); songs still share one concurrency budget
+  playlistConcurrency?: number | undefined;
+  // Emitter for one playlist's events; options.events then only gets the batch summary
+  eventsFor?: ((url: string, index: number) => DownloadEvents | undefined) | undefined;
+}
+
+/**
+ * Reads playlist URLs from a batch file: one per line, blank lines and "#" comments ignored
+ */
+export function readBatchFile(filePath: string): string[] {
+  return fs
+    .readFileSync(filePath, 'utf-8')
+    .split(/\r?\n/)
+    .map((line) => line.replace(/(^|\s)#.*$/, '').trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Runs one pipeline per URL. Every playlist gets its own temp dir and output, while downloads and
+ * conversions across all of them share the queues sized by concurrency and transcodeConcurrency.
+ * A playlist that throws is recorded as failed and the others carry on.
+ */
+async function runBatch<T extends PipelineOptions, R>(
+  command: 'download' | 'sync',
+  urls: string[],
+  options: T,
+  batch: BatchOptions,
+  run: (url: string, options: T) => Promise<R>,
+  summarize: (result: R) => Omit<BatchItemResult, 'url'>
+): Promise<BatchItemResult[]> {
+  const { playlistConcurrency, eventsFor } = batch;
+  const queues = options.queues ?? createPipelineQueues(options.concurrency ?? 5, options.transcodeConcurrency ?? 2);
+  const playlists = new PQueue({ concurrency: playlistConcurrency ?? 2 });
+  const uniqueUrls = [...new Set(urls)];
+
+  const results = await Promise.all(uniqueUrls.map((url, index) => playlists.add(async (): Promise<BatchItemResult> => {
+    if (options.signal?.aborted) {
+      return { url, status: 'cancelled', succeeded: 0, failed: 0 };
+    }
+
+    const events = eventsFor ? eventsFor(url, index) : options.events;
+    try {
+      return { url, ...summarize(await run(url, { ...options, queues, events })) };
+    } catch (error) {
+      return {
+        url,
+        status: options.signal?.aborted ? 'cancelled' : 'failed',
+        succeeded: 0,
+        failed: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  })));
+
+  emitEvent(options.events, { type: 'batch-summary', command, playlists: results });
+  return results;
+}
+
+/**
+ * Downloads several playlists, each into its own ZIP or folders
+ */
+export function downloadPlaylists(urls: string[], options: DownloadPlaylistOptions & BatchOptions): Promise<BatchItemResult[]> {
+  const { playlistConcurrency, eventsFor, ...downloadOptions } = options;
+  return runBatch('download', urls, downloadOptions, { playlistConcurrency, eventsFor }, downloadPlaylist, (result) => ({
+    status: result.cancelled ? 'cancelled' : 'completed',
+    playlistName: result.playlistName,
+    location: result.location,
+    succeeded: result.successCount,
+    failed: result.failedCount,
+  }));
+}
+
+/**
+ * Syncs several playlist folders
+ */
+export function syncPlaylists(urls: string[], options: SyncPlaylistOptions & BatchOptions): Promise<BatchItemResult[]> {
+  const { playlistConcurrency, eventsFor, ...syncOptions } = options;
+  return runBatch('sync', urls, syncOptions, { playlistConcurrency, eventsFor }, syncPlaylist, (result) => ({
+    status: result.cancelled ? 'cancelled' : 'completed',
+    playlistName: result.playlistName,
+    location: result.folder,
+    succeeded: result.addedCount,
+    failed: result.failedCount,
+  }));
+}
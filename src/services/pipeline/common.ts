@@ -0,0 +1,798 @@
+import fs from 'fs';
+import path from 'path';
+import { validateAndResolveTarget, fetchSongDetails, fetchTargetMetadata } from '../youtube/fetcher.js';
+import { assignSongNames, downloadSongs, type PipelineQueues } from '../downloader/downloader.js';
+import { SongError, type RetryPolicies } from '../downloader/errors.js';
+import { AUDIO_FORMATS } from '../downloader/formats.js';
+import { DEFAULT_QUALITY, estimateBitrate, SOURCE_BITRATE_ESTIMATE, validateQuality } from '../downloader/quality.js';
+import { addMetadata, addMetadataToFiles } from '../metadata/tagger.js';
+import {
+  createLoudnessCache,
+  DEFAULT_LOUDNESS_TARGET,
+  loudnessKey,
+  measureCached,
+  replayGainFor,
+  type LoudnessCache,
+  type ReplayGain,
+} from '../loudness/loudness.js';
+import { createCoverCache, writeFolderCover } from '../metadata/cover.js';
+import { buildTitleRules } from '../metadata/titleParser.js';
+import { buildPlaylistEntries, writePlaylistFiles } from '../playlist/playlistFile.js';
+import { selectSongs, validateSelection, type TrackSelection } from '../playlist/selection.js';
+import { chapterSongs, cutTrack, readSplitFile } from '../splitter/splitter.js';
+import { createRunStateSaver, type RunStateSaver } from '../state/runState.js';
+import { formatBytes, isTight, sameFilesystem, shortfallOf, songBytes, spaceNeeds, watchDiskSpace } from '../storage/diskSpace.js';
+import { checkTags, verifyAudioFile } from '../verify/verify.js';
+import { recordFailures } from '../report/failedReport.js';
+import { getDirectorySize } from '../zipper/zipper.js';
+import type { Logger } from '../../utils/logger.js';
+import { fitPathLength, type SanitizeOptions } from '../../utils/validator.js';
+import { DEFAULT_FILENAME_TEMPLATE, renderTemplate, songTemplateValues, validateTemplate } from '../../utils/template.js';
+import { emitEvent, eventLogger, type DownloadEvents } from './events.js';
+import type {
+  AudioFormat,
+  AudioQuality,
+  Chapter,
+  FailedRunSettings,
+  LoudnessMode,
+  ManifestTrack,
+  Playlist,
+  RunState,
+  SkippedSong,
+  Song,
+  SongFailure,
+  SongJobStatus,
+  SongResult,
+  YouTubeTarget,
+} from '../../types/index.js';
+
+// Options shared by downloadPlaylist and syncPlaylist
+export interface PipelineOptions {
+  outputDir: string;
+  // Base directory for per-run temp dirs; defaults to hidden ".temp_*" folders inside outputDir
+  tempDir?: string | undefined;
+  concurrency?: number | undefined;
+  transcodeConcurrency?: number | undefined;
+  audioFormat?: AudioFormat | undefined;
+  quality?: AudioQuality | undefined;
+  filenameTemplate?: string | undefined;
+  asciiFilenames?: boolean | undefined;
+  // For a URL with both a video and a list, download only the video
+  preferVideo?: boolean | undefined;
+  cookiesFile?: string | undefined;
+  metadata?: boolean | undefined;
+  // Parse artist and title from raw video titles of uploads without YouTube Music metadata
+  cleanTitles?: boolean | undefined;
+  // Extra regex sources stripped from video titles
+  titleNoise?: string[] | undefined;
+  playlistFile?: boolean | undefined;
+  xspf?: boolean | undefined;
+  // Loudness normalization: re-encode to a target level (loudnorm) or only add gain tags (replaygain)
+  normalize?: LoudnessMode | undefined;
+  // Integrated loudness in LUFS for loudnorm (default -14)
+  loudnessTarget?: number | undefined;
+  // Cut videos with chapters into one track per chapter
+  split?: boolean | undefined;
+  // Cue sheet or timestamp list to cut a single video by; implies split
+  splitFile?: string | undefined;
+  // Trim silence at the start and end of split tracks (re-encodes them)
+  trimSilence?: boolean | undefined;
+  // Check finished files with FFprobe and a full decode, and their tags after tagging (default true)
+  verify?: boolean | undefined;
+  // Cap in bytes on the size of the tracks a run downloads
+  maxSize?: number | undefined;
+  // Check free disk space before downloading and stop when it runs low (default true)
+  spaceCheck?: boolean | undefined;
+  // Overrides of the retry policy per failure kind, e.g. more attempts for rate limits
+  retryPolicies?: RetryPolicies | undefined;
+  // Only download these video IDs of the playlist (used by retry-failed)
+  songIds?: string[] | undefined;
+  // Which tracks of the playlist to download: positions, title patterns, duration bounds
+  selection?: TrackSelection | undefined;
+  // Lets the user narrow the selected tracks down by hand, e.g. with an interactive picker
+  pickTracks?: ((songs: Song[]) => Promise<Song[]>) | undefined;
+  // Download/conversion queues shared with other runs; concurrency and transcodeConcurrency are then ignored
+  queues?: PipelineQueues | undefined;
+  signal?: AbortSignal | undefined;
+  events?: DownloadEvents | undefined;
+}
+
+// PipelineOptions with every default filled in
+export interface ResolvedPipelineOptions extends PipelineOptions {
+  concurrency: number;
+  transcodeConcurrency: number;
+  audioFormat: AudioFormat;
+  quality: AudioQuality;
+  filenameTemplate: string;
+  asciiFilenames: boolean;
+  metadata: boolean;
+  playlistFile: boolean;
+  loudnessTarget: number;
+  verify: boolean;
+  spaceCheck: boolean;
+  // Sends warnings and progress messages to events as "log" events
+  log: Logger;
+}
+
+// One batch of songs to download into a temp dir
+export interface DownloadJob {
+  songs: Song[];
+  playlistName: string;
+  tempDir: string;
+  // Folder a song's file ends up in, so names are shortened to fit the final path rather than the temp one
+  finalDir?: (song: Song) => string;
+  // Files already in the destination that new songs must not overwrite
+  reservedNames?: string[];
+  // Persisted per-song state of a resumable run
+  state?: RunState;
+  // Tracks kept from earlier runs (e.g. a sync's unchanged tracks); with ReplayGain their cached
+  // measurements count towards the album gain of the new ones
+  albumTracks?: ManifestTrack[];
+  // Called with each song as soon as its file is converted and tagged, e.g. to add it to an archive
+  // straight away. Songs are then tagged one by one as they finish instead of after all downloads.
+  onSongReady?: (result: SongResult) => void;
+  // Still tag the songs finished before a cancel, for callers that keep them (a sync records them)
+  tagWhenCancelled?: boolean;
+}
+
+/**
+ * Fills in defaults and validates the options so bad values fail before any download
+ */
+export function resolvePipelineOptions<T extends PipelineOptions>(options: T): T & ResolvedPipelineOptions {
+  const resolved = {
+    ...options,
+    concurrency: options.concurrency ?? 5,
+    transcodeConcurrency: options.transcodeConcurrency ?? 2,
+    audioFormat: options.audioFormat ?? 'mp3',
+    quality: options.quality ?? DEFAULT_QUALITY,
+    filenameTemplate: options.filenameTemplate ?? DEFAULT_FILENAME_TEMPLATE,
+    asciiFilenames: options.asciiFilenames ?? false,
+    metadata: options.metadata ?? true,
+    playlistFile: options.playlistFile ?? true,
+    loudnessTarget: options.loudnessTarget ?? DEFAULT_LOUDNESS_TARGET,
+    verify: options.verify ?? true,
+    spaceCheck: options.spaceCheck ?? true,
+    log: eventLogger(options.events),
+  };
+
+  if (!AUDIO_FORMATS[resolved.audioFormat]) {
+    throw new Error(`Unknown audio format: ${resolved.audioFormat}`);
+  }
+  validateQuality(resolved.quality, AUDIO_FORMATS[resolved.audioFormat]);
+  validateTemplate(resolved.filenameTemplate, 'filename template');
+  validateLoudness(resolved);
+  if (resolved.selection) {
+    validateSelection(resolved.selection);
+  }
+  if (resolved.splitFile) {
+    readSplitFile(resolved.splitFile);
+  }
+  if (resolved.maxSize !== undefined && !(resolved.maxSize > 0)) {
+    throw new Error(`Size cap must be a positive number of bytes, got: ${resolved.maxSize}`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Checks that the normalization mode fits the other settings
+ */
+export function validateLoudness(options: ResolvedPipelineOptions): void {
+  if (!(options.loudnessTarget >= -70 && options.loudnessTarget <= -5)) {
+    throw new Error(`Loudness target must be between -70 and -5 LUFS, got: ${options.loudnessTarget}`);
+  }
+  if (options.normalize === 'loudnorm' && options.quality.mode === 'source') {
+    throw new Error('Loudness normalization re-encodes every track and cannot be combined with --quality source. Use --normalize replaygain');
+  }
+  if (options.normalize === 'replaygain' && !options.metadata) {
+    throw new Error('ReplayGain values are written as tags and cannot be combined with --no-metadata');
+  }
+}
+
+/**
+ * Builds the file name rules from the options
+ */
+export function sanitizeOptionsFor(options: PipelineOptions): SanitizeOptions {
+  return { ascii: Boolean(options.asciiFilenames) };
+}
+
+// The failures listed in events and summaries
+export function summarizeFailures(failedDownloads: SongResult[]): SongFailure[] {
+  return failedDownloads.map((result) => ({
+    songId: result.song.id,
+    title: result.song.title,
+    kind: result.errorKind ?? 'unknown',
+    error: result.error ?? 'Unknown error',
+  }));
+}
+
+/**
+ * Validates the URL and works out what it points at (step 1)
+ */
+export async function resolveTarget(url: string, options: PipelineOptions): Promise<YouTubeTarget> {
+  const target = await validateAndResolveTarget(url, Boolean(options.preferVideo));
+  emitEvent(options.events, { type: 'target-resolved', kind: target.kind, id: target.id });
+  return target;
+}
+
+/**
+ * Fetches the playlist metadata (step 2)
+ */
+export async function fetchPlaylist(target: YouTubeTarget, options: ResolvedPipelineOptions): Promise<Playlist> {
+  const titleRules = options.cleanTitles === false ? null : buildTitleRules(options.titleNoise);
+  const playlist = await fetchTargetMetadata(target, options.cookiesFile, titleRules, options.log);
+  if (options.splitFile && playlist.songs.length > 1) {
+    throw new Error(`A split file cuts a single video, but "${playlist.name}" has ${playlist.songs.length}`);
+  }
+  emitEvent(options.events, {
+    type: 'playlist-resolved',
+    playlistId: target.id,
+    kind: target.kind,
+    name: playlist.name,
+    uploader: playlist.uploader,
+    totalCount: playlist.totalCount,
+    resumed: false,
+  });
+  return playlist;
+}
+
+/**
+ * Applies the track selection and then the picker to a playlist's songs. For a sync, `candidates`
+ * limits the result to the songs still to download; positions always refer to the whole playlist.
+ */
+export async function selectTracks(
+  songs: Song[],
+  options: PipelineOptions,
+  candidates?: Set<string>
+): Promise<{ selected: Song[]; skipped: SkippedSong[] }> {
+  const { selected, skipped } = selectSongs(songs, options.selection);
+  const isCandidate = (songId: string) => !candidates || candidates.has(songId);
+  let chosen = selected.filter((song) => isCandidate(song.id));
+  const skippedCandidates = skipped.filter((song) => isCandidate(song.songId));
+
+  if (options.pickTracks && chosen.length > 0) {
+    const picked = new Set((await options.pickTracks(chosen)).map((song) => song.id));
+    for (const song of chosen.filter((song) => !picked.has(song.id))) {
+      skippedCandidates.push({ songId: song.id, title: song.title, reason: 'not-picked' });
+    }
+    chosen = chosen.filter((song) => picked.has(song.id));
+  }
+
+  if (skippedCandidates.length > 0) {
+    emitEvent(options.events, {
+      type: 'selection',
+      total: candidates ? candidates.size : songs.length,
+      selected: chosen.length,
+      skipped: skippedCandidates,
+    });
+  }
+  return { selected: chosen, skipped: skippedCandidates };
+}
+
+/**
+ * Path of a run's temp directory with the given suffix
+ */
+export function tempDirFor(options: PipelineOptions, suffix: number): string {
+  return options.tempDir
+    ? path.join(options.tempDir, `${suffix}`)
+    : path.join(options.outputDir, `.temp_${suffix}`);
+}
+
+/**
+ * Creates a unique temp directory for one run
+ */
+export function createTempDir(options: PipelineOptions): string {
+  // Runs started in the same millisecond (batch mode) still get a folder each
+  let uniqueSuffix = Date.now();
+  while (fs.existsSync(tempDirFor(options, uniqueSuffix))) {
+    uniqueSuffix++;
+  }
+  const tempDir = tempDirFor(options, uniqueSuffix);
+  fs.mkdirSync(tempDir, { recursive: true });
+  return tempDir;
+}
+
+/**
+ * Checks before downloading that a run fits on disk and under the size cap. The temp filesystem
+ * needs room for the tracks plus the downloads waiting for conversion; finalDir needs a copy of
+ * every track when they are archived, or when moving them there crosses filesystems. Throws with
+ * the numbers when the run doesn't fit, and warns when it only just fits or some lengths are
+ * unknown. Songs an interrupted run finished are on disk already.
+ */
+export function checkDiskSpace(
+  job: Pick<DownloadJob, 'songs' | 'tempDir' | 'state'>,
+  options: ResolvedPipelineOptions,
+  finalDir: string,
+  archive: boolean
+): void {
+  if (!options.spaceCheck) {
+    return;
+  }
+
+  const spec = AUDIO_FORMATS[options.audioFormat];
+  const bitrate = estimateBitrate(options.quality, spec, options.normalize === 'loudnorm');
+  const finished = new Set(
+    (job.state?.songs ?? []).filter((song) => song.status === 'converted' || song.status === 'tagged').map((song) => song.id)
+  );
+  const songs = job.songs.filter((song) => !finished.has(song.id));
+  const sizes = songs.map((song) => songBytes(song, bitrate));
+  const estimatedBytes = sizes.reduce((total, size) => total + size, 0);
+  const finishedBytes = getDirectorySize(job.tempDir, (file) => file.endsWith(`.${spec.extension}`));
+
+  // downloadSongs holds back downloads while this many are waiting for or in conversion
+  const inFlight = options.concurrency + options.transcodeConcurrency * 3;
+  const sourceBytes = songs
+    .map((song) => songBytes(song, SOURCE_BITRATE_ESTIMATE))
+    .sort((a, b) => b - a)
+    .slice(0, inFlight)
+    .reduce((total, size) => total + size, 0);
+  // A video being split sits next to the tracks cut from it
+  const splitBytes = options.split || options.splitFile ? Math.max(0, ...sizes) : 0;
+
+  const filesystems = spaceNeeds([
+    // Named by the temp dir's parent, since a new run's temp dir doesn't exist yet
+    { path: path.dirname(job.tempDir), bytes: estimatedBytes + sourceBytes + splitBytes },
+    { path: finalDir, bytes: archive || !sameFilesystem(finalDir, job.tempDir) ? finishedBytes + estimatedBytes : 0 },
+  ]);
+  const unknownDurations = songs.filter((song) => !(song.duration > 0)).length;
+  emitEvent(options.events, { type: 'disk-space', estimatedBytes, unknownDurations, maxSize: options.maxSize, filesystems });
+
+  const totalBytes = finishedBytes + estimatedBytes;
+  if (options.maxSize !== undefined && totalBytes > options.maxSize) {
+    throw new Error(
+      `The tracks come to about ${formatBytes(totalBytes)}, over the ${formatBytes(options.maxSize)} size cap. ` +
+        'Select fewer tracks (e.g. --items or --max-duration) or raise --max-size'
+    );
+  }
+
+  const shortfalls = filesystems.map(shortfallOf).filter((shortfall) => shortfall !== null);
+  if (shortfalls.length > 0) {
+    throw new Error(
+      `Not enough disk space: ${shortfalls.join('; ')}. Free up space, choose another --output or --temp-dir, or skip this check with --no-space-check`
+    );
+  }
+  for (const need of filesystems.filter(isTight)) {
+    options.log.warn(`Disk space is tight: about ${formatBytes(need.neededBytes)} needed on the disk of ${need.path}, ${formatBytes(need.freeBytes)} free`);
+  }
+  if (unknownDurations > 0) {
+    options.log.warn(`${unknownDurations} tracks have no known length and are left out of the size estimate`);
+  }
+}
+
+/**
+ * Watches the run's temp dir while it downloads and stops the run cleanly, as if it was cancelled,
+ * when the disk runs low or the tracks outgrow the size cap. Replaces options.signal with one that
+ * does both; call the returned function once the downloads are over.
+ */
+export function guardDiskSpace(tempDir: string, options: ResolvedPipelineOptions): () => void {
+  if (!options.spaceCheck) {
+    return () => {};
+  }
+
+  const extension = `.${AUDIO_FORMATS[options.audioFormat].extension}`;
+  const watcher = watchDiskSpace(tempDir, {
+    maxBytes: options.maxSize,
+    isOutput: (file) => file.endsWith(extension),
+    signal: options.signal,
+    onStop: (reason, usedBytes, freeBytes) => {
+      emitEvent(options.events, { type: 'disk-space-stop', reason, usedBytes, freeBytes });
+    },
+  });
+  options.signal = watcher.signal;
+  return watcher.dispose;
+}
+
+/**
+ * Relative path (without extension) of a song's file from the filename template,
+ * shortened to fit its final folder when that is known
+ */
+export function songOutputName(
+  options: ResolvedPipelineOptions,
+  playlistName: string,
+  finalDir?: (song: Song) => string
+): (song: Song) => string {
+  const sanitize = sanitizeOptionsFor(options);
+  const extensionBytes = AUDIO_FORMATS[options.audioFormat].extension.length + 1;
+  return (song) => {
+    const name = renderTemplate(options.filenameTemplate, songTemplateValues(song, playlistName), sanitize);
+    return finalDir ? fitPathLength(name, finalDir(song), extensionBytes) : name;
+  };
+}
+
+/**
+ * ReplayGain values of the measured songs by song ID. The album is the songs of this run plus the
+ * earlier tracks whose measurements are cached; tracks measured before the cache existed are left out.
+ */
+function replayGainsFor(
+  results: SongResult[],
+  albumTracks: ManifestTrack[],
+  cache: LoudnessCache | undefined,
+  format: AudioFormat
+): Map<string, ReplayGain> {
+  const measured = results.filter((result) => result.loudness);
+  const runIds = new Set(measured.map((result) => result.song.id));
+  const earlier = albumTracks.flatMap((track) => {
+    const measurement = runIds.has(track.id) ? undefined : cache?.get(loudnessKey(track.id, format));
+    return measurement ? [{ measurement, duration: track.duration ?? 0 }] : [];
+  });
+
+  const gains = replayGainFor([
+    ...measured.map((result) => ({ measurement: result.loudness!, duration: result.song.duration })),
+    ...earlier,
+  ]);
+  return new Map(measured.map((result, index) => [result.song.id, gains[index]!]));
+}
+
+/**
+ * Finds the sections to cut each video into when splitting: the split file's, or the video's
+ * chapters. Listings that leave chapters out (flat playlists) are completed from the video page.
+ */
+export async function loadChapters(songs: Song[], options: ResolvedPipelineOptions): Promise<void> {
+  if (options.splitFile) {
+    const chapters = readSplitFile(options.splitFile);
+    for (const song of songs) {
+      song.chapters = chapters;
+    }
+    return;
+  }
+  if (!options.split) {
+    return;
+  }
+
+  for (const song of songs.filter((song) => song.chapters === undefined)) {
+    try {
+      song.chapters = (await fetchSongDetails(song.id, options.cookiesFile, null, options.signal)).chapters ?? [];
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return;
+      }
+      options.log.warn(`Could not look up the chapters of "${song.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+      song.chapters = [];
+    }
+  }
+}
+
+// Splitting needs at least two sections; one chapter is the whole video
+function splitSections(song: Song, options: PipelineOptions): Chapter[] | null {
+  return (options.split || options.splitFile) && (song.chapters?.length ?? 0) >= 2 ? song.chapters! : null;
+}
+
+/**
+ * The tracks a run ends up with: videos that will be split are replaced by their sections
+ */
+export function splitTracksOf(songs: Song[], options: PipelineOptions): Song[] {
+  return songs.flatMap((song) => {
+    const sections = splitSections(song, options);
+    return sections ? chapterSongs(song, sections) : [song];
+  });
+}
+
+/**
+ * Cuts the downloaded videos that have sections into one file per section, one video at a time.
+ * A video that fails to split is kept whole.
+ */
+async function splitDownloads(
+  results: SongResult[],
+  job: DownloadJob,
+  options: ResolvedPipelineOptions,
+  loudnessCache: LoudnessCache | undefined
+): Promise<SongResult[]> {
+  const { events, signal } = options;
+  const spec = AUDIO_FORMATS[options.audioFormat];
+  const outputName = songOutputName(options, job.playlistName, job.finalDir);
+  const taken = new Set([...(job.reservedNames ?? []), ...results.map((result) => path.relative(job.tempDir, result.filePath))]);
+  const splitResults: SongResult[] = [];
+
+  for (const result of results) {
+    const sections = signal?.aborted ? null : splitSections(result.song, options);
+    if (!sections) {
+      splitResults.push(result);
+      continue;
+    }
+
+    const tracks = chapterSongs(result.song, sections);
+    taken.delete(path.relative(job.tempDir, result.filePath));
+    const names = assignSongNames(tracks, job.tempDir, spec, outputName, taken);
+    const pieces: SongResult[] = [];
+
+    try {
+      for (const track of tracks) {
+        const filePath = path.join(job.tempDir, `${names.get(track)!}.${spec.extension}`);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        await cutTrack(result.filePath, filePath, track, spec, options.quality, Boolean(options.trimSilence), signal);
+        // Trimmed tracks are shorter than their section by design
+        const problems = options.verify
+          ? await verifyAudioFile(filePath, { duration: options.trimSilence ? undefined : track.duration }, signal)
+          : [];
+        if (problems.length > 0) {
+          throw new Error(`"${track.title}" failed verification: ${problems.join('; ')}`);
+        }
+        // As with whole songs, a failed measurement only costs the track its gain tags
+        const loudness = loudnessCache && options.normalize === 'replaygain'
+          ? await measureCached(loudnessCache, loudnessKey(track.id, spec.format), filePath, signal).catch((error: unknown) => {
+            if (signal?.aborted) {
+              throw error;
+            }
+            options.log.warn(`Could not measure the loudness of "${track.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return undefined;
+          })
+          : undefined;
+        pieces.push({ song: track, filePath, success: true, loudness });
+      }
+    } catch (error) {
+      for (const piece of pieces) {
+        fs.rmSync(piece.filePath, { force: true });
+      }
+      taken.add(path.relative(job.tempDir, result.filePath));
+      if (!signal?.aborted) {
+        options.log.warn(`Could not split "${result.song.title}", keeping it whole: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      splitResults.push(result);
+      continue;
+    }
+
+    fs.rmSync(result.filePath, { force: true });
+    for (const piece of pieces) {
+      taken.add(path.relative(job.tempDir, piece.filePath));
+    }
+    emitEvent(events, { type: 'split', songId: result.song.id, title: result.song.title, tracks: pieces.length });
+    splitResults.push(...pieces);
+  }
+
+  return splitResults;
+}
+
+/**
+ * The tagged files whose title or artist tag can't be read back, with the tags they lack
+ */
+async function filesMissingTags(results: SongResult[]): Promise<Array<{ result: SongResult; missing: string[] }>> {
+  const checked = [];
+  for (const result of results) {
+    checked.push({ result, missing: await checkTags(result.filePath) });
+  }
+  return checked.filter((file) => file.missing.length > 0);
+}
+
+/**
+ * Downloads, converts and tags songs into the temp directory (steps 3 and 4).
+ * When splitting, videos with sections come back as the tracks cut from them.
+ */
+export async function downloadAndTag(
+  job: DownloadJob,
+  options: ResolvedPipelineOptions
+): Promise<{ successfulDownloads: SongResult[]; failedDownloads: SongResult[] }> {
+  const saver = job.state ? createRunStateSaver(job.tempDir, job.state, options.signal) : null;
+  try {
+    return await downloadAndTagSongs(job, options, saver);
+  } finally {
+    saver?.dispose();
+  }
+}
+
+async function downloadAndTagSongs(
+  job: DownloadJob,
+  options: ResolvedPipelineOptions,
+  saver: RunStateSaver | null
+): Promise<{ successfulDownloads: SongResult[]; failedDownloads: SongResult[] }> {
+  const { songs, playlistName, tempDir, finalDir, state } = job;
+  const { events, signal } = options;
+  const resumeStates: Record<string, SongJobStatus> = {};
+  for (const job of state?.songs ?? []) {
+    resumeStates[job.id] = job.status;
+  }
+
+  // Record progress without ever moving a song back to an earlier stage
+  const updateStatus = (songId: string, status: SongJobStatus, error?: string) => {
+    if (!saver || (resumeStates[songId] === 'tagged' && status === 'converted')) {
+      return;
+    }
+    resumeStates[songId] = status;
+    saver.setSongStatus(songId, status, error);
+  };
+
+  await loadChapters(songs, options);
+  const loudnessCache = options.normalize ? createLoudnessCache(options.outputDir, options.log) : undefined;
+  const covers = createCoverCache(options.log);
+  const onTagged = (song: Song) => {
+    updateStatus(song.id, 'tagged');
+    emitEvent(events, { type: 'song-state', songId: song.id, title: song.title, status: 'tagged', progress: 100 });
+  };
+
+  // Tags a finished song right away, with a second try for tags that didn't stick, and hands it on
+  const finishSong = async (result: SongResult) => {
+    if (options.metadata && resumeStates[result.song.id] !== 'tagged') {
+      await addMetadata(result.filePath, result.song, { covers, log: options.log });
+      let missing = options.verify ? await checkTags(result.filePath) : [];
+      if (missing.length > 0) {
+        await addMetadata(result.filePath, result.song, { covers, log: options.log });
+        missing = await checkTags(result.filePath);
+      }
+      if (missing.length > 0) {
+        throw new SongError(`Tags missing after tagging: ${missing.join(', ')}`, 'corrupt');
+      }
+      onTagged(result.song);
+    }
+    job.onSongReady!(result);
+  };
+
+  // Step 3: Download songs
+  emitEvent(events, { type: 'downloads', status: 'started', count: songs.length });
+
+  const downloadResults = await downloadSongs(songs, {
+    outputDir: tempDir,
+    concurrency: options.concurrency,
+    transcodeConcurrency: options.transcodeConcurrency,
+    audioFormat: options.audioFormat,
+    quality: options.quality,
+    ...(options.cookiesFile ? { cookiesFile: options.cookiesFile } : {}),
+    outputName: songOutputName(options, playlistName, finalDir),
+    reservedNames: job.reservedNames ?? [],
+    ...(options.queues ? { queues: options.queues } : {}),
+    ...(options.retryPolicies ? { retryPolicies: options.retryPolicies } : {}),
+    ...(options.normalize && loudnessCache
+      ? { loudness: { mode: options.normalize, target: options.loudnessTarget, cache: loudnessCache } }
+      : {}),
+    resumeStates,
+    verify: options.verify,
+    log: options.log,
+    ...(job.onSongReady ? { onSongDone: finishSong } : {}),
+    ...(signal ? { signal } : {}),
+    onProgress: (progress) => {
+      if (progress.status === 'completed') {
+        updateStatus(progress.songId, 'converted');
+      } else if (progress.status === 'failed') {
+        updateStatus(progress.songId, 'failed', progress.error);
+      } else if (progress.status === 'converting') {
+        updateStatus(progress.songId, 'downloaded');
+      }
+      emitEvent(events, { type: 'song-state', ...progress });
+    },
+  });
+
+  const downloadedSongs = downloadResults.filter((r) => r.success);
+  const failedDownloads = downloadResults.filter((r) => !r.success && !r.cancelled);
+
+  emitEvent(events, {
+    type: 'downloads',
+    status: 'completed',
+    count: songs.length,
+    succeeded: downloadedSongs.length,
+    failures: summarizeFailures(failedDownloads),
+  });
+
+  let successfulDownloads = options.split || options.splitFile
+    ? await splitDownloads(downloadedSongs, job, options, loudnessCache)
+    : downloadedSongs;
+
+  // Step 4: Add metadata (files tagged before an interruption are skipped)
+  const untagged = successfulDownloads.filter((result) => resumeStates[result.song.id] !== 'tagged');
+  if (options.metadata && successfulDownloads.length > 0 && (!signal?.aborted || job.tagWhenCancelled)) {
+    emitEvent(events, { type: 'tagging', status: 'started', count: untagged.length });
+    const replayGains = options.normalize === 'replaygain'
+      ? replayGainsFor(successfulDownloads, job.albumTracks ?? [], loudnessCache, options.audioFormat)
+      : new Map<string, ReplayGain>();
+    const tagEntry = (result: SongResult) => ({
+      filePath: result.filePath,
+      song: result.song,
+      replayGain: replayGains.get(result.song.id),
+    });
+    await addMetadataToFiles(untagged.map(tagEntry), { covers, onTagged, log: options.log });
+
+    // Tags that didn't stick get a second pass; files still without them fail as corrupt
+    if (options.verify && !signal?.aborted) {
+      const badlyTagged = await filesMissingTags(untagged);
+      if (badlyTagged.length > 0) {
+        await addMetadataToFiles(badlyTagged.map((file) => tagEntry(file.result)), { covers, log: options.log });
+        for (const { result, missing } of await filesMissingTags(badlyTagged.map((file) => file.result))) {
+          const error = `Tags missing after tagging: ${missing.join(', ')}`;
+          fs.rmSync(result.filePath, { force: true });
+          successfulDownloads = successfulDownloads.filter((download) => download !== result);
+          failedDownloads.push({ ...result, filePath: '', success: false, error, errorKind: 'corrupt' });
+          updateStatus(result.song.id, 'failed', error);
+          emitEvent(events, {
+            type: 'song-state',
+            songId: result.song.id,
+            title: result.song.title,
+            status: 'failed',
+            progress: 0,
+            error,
+            errorKind: 'corrupt',
+          });
+        }
+      }
+    }
+
+    // Folder artwork for each folder comes from its first track, which is the album cover for albums
+    const firstSongByFolder = new Map<string, Song>();
+    for (const result of successfulDownloads) {
+      const folder = path.dirname(result.filePath);
+      if (!firstSongByFolder.has(folder)) {
+        firstSongByFolder.set(folder, result.song);
+      }
+    }
+    for (const [folder, song] of firstSongByFolder) {
+      writeFolderCover(folder, await covers.getCover(song));
+    }
+    emitEvent(events, { type: 'tagging', status: 'completed', count: untagged.length });
+  }
+
+  return { successfulDownloads, failedDownloads };
+}
+
+/**
+ * Writes the playlist files for a folder in playlist order; songs without a file are listed as failed
+ */
+export function writePlaylistFile(
+  folder: string,
+  playlist: Playlist,
+  files: Map<string, string>,
+  failedDownloads: SongResult[],
+  options: PipelineOptions
+): void {
+  if (options.playlistFile === false) {
+    return;
+  }
+
+  const errors = new Map(failedDownloads.map((result) => [result.song.id, result.error ?? 'Unknown error']));
+  writePlaylistFiles(folder, playlist.name, buildPlaylistEntries(playlist.songs, files, folder, errors), {
+    xspf: Boolean(options.xspf),
+    sanitize: sanitizeOptionsFor(options),
+  });
+}
+
+/**
+ * Records the run's failures in failed.json in the output dir so retry-failed can pick them up.
+ * Returns the report path when it lists failures of this playlist.
+ */
+export function reportFailures(
+  command: 'download' | 'sync',
+  url: string,
+  playlistId: string,
+  playlist: Playlist,
+  location: string | null,
+  failedDownloads: SongResult[],
+  options: ResolvedPipelineOptions,
+  extraSettings: Pick<FailedRunSettings, 'zip' | 'archiveFormat' | 'folderTemplate'> = {}
+): string | undefined {
+  try {
+    const reportPath = recordFailures(
+      options.outputDir,
+      {
+        command,
+        url,
+        playlistId,
+        playlistName: playlist.name,
+        location,
+        settings: {
+          audioFormat: options.audioFormat,
+          quality: options.quality,
+          filenameTemplate: options.filenameTemplate,
+          asciiFilenames: options.asciiFilenames,
+          metadata: options.metadata,
+          cleanTitles: options.cleanTitles,
+          titleNoise: options.titleNoise,
+          normalize: options.normalize,
+          loudnessTarget: options.normalize ? options.loudnessTarget : undefined,
+          split: options.split,
+          splitFile: options.splitFile,
+          trimSilence: options.trimSilence,
+          ...extraSettings,
+        },
+        failedAt: new Date().toISOString(),
+        songs: failedDownloads.map((result) => ({
+          id: result.song.id,
+          title: result.song.title,
+          artist: result.song.artist,
+          kind: result.errorKind ?? 'unknown',
+          error: result.error ?? 'Unknown error',
+        })),
+      },
+      options.songIds
+    );
+    return reportPath ?? undefined;
+  } catch (error) {
+    // The downloads themselves succeeded, so a broken report only costs the retry list
+    options.log.warn(`Could not update the failure report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return undefined;
+  }
+}
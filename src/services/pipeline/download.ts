@@ -0,0 +1,346 @@
+import fs from 'fs';
+import path from 'path';
+import { COVER_FILENAME } from '../metadata/cover.js';
+import { createArchiveWriter, getDirectorySize, type ArchiveOptions, type ArchiveResult, type ArchiveWriter } from '../zipper/zipper.js';
+import { shortfallOf, spaceNeeds } from '../storage/diskSpace.js';
+import { expandSplitSongs } from '../splitter/splitter.js';
+import { createRunState, findInterruptedRun, readRunState, saveRunState } from '../state/runState.js';
+import { createManifest, MANIFEST_FILENAME, recordTrack, writeManifest } from '../sync/manifest.js';
+import { sanitizeFilename, type SanitizeOptions } from '../../utils/validator.js';
+import { DEFAULT_FILENAME_TEMPLATE, DEFAULT_FOLDER_TEMPLATE, renderTemplate, songTemplateValues, validateTemplate } from '../../utils/template.js';
+import { emitEvent } from './events.js';
+import {
+  checkDiskSpace,
+  createTempDir,
+  downloadAndTag,
+  fetchPlaylist,
+  guardDiskSpace,
+  reportFailures,
+  selectTracks,
+  resolvePipelineOptions,
+  resolveTarget,
+  type ResolvedPipelineOptions,
+  sanitizeOptionsFor,
+  summarizeFailures,
+  tempDirFor,
+  writePlaylistFile,
+  type PipelineOptions,
+} from './common.js';
+import type { ArchiveFormat, DownloadResult, Playlist, Song, SongResult } from '../../types/index.js';
+
+export interface DownloadPlaylistOptions extends PipelineOptions {
+  // Pack the tracks into an archive in outputDir (default) instead of moving them into folders
+  zip?: boolean | undefined;
+  // Format of that archive (default: zip)
+  archiveFormat?: ArchiveFormat | undefined;
+  // Split the archive into volumes of at most this many bytes
+  splitSize?: number | undefined;
+  // Add each track to the archive as soon as it is finished, so the archive is ready right after the last one
+  streamArchive?: boolean | undefined;
+  // Folder layout under outputDir when zip is off
+  folderTemplate?: string | undefined;
+  // Continue an interrupted run of the same playlist if there is one (default)
+  resume?: boolean | undefined;
+  // Archive file name without extension; defaults to "<playlist> — <uploader>"
+  archiveName?: string | undefined;
+}
+
+/**
+ * Checks the archive options; streaming needs every track final as soon as it is converted,
+ * which splitting and ReplayGain (measured over the whole album) rule out
+ */
+function validateArchiveOptions(options: DownloadPlaylistOptions & ResolvedPipelineOptions): void {
+  if (options.splitSize !== undefined && !(options.splitSize >= 1024 * 1024)) {
+    throw new Error(`Split size must be at least 1 MB, got: ${options.splitSize} bytes`);
+  }
+  if (options.streamArchive && (options.split || options.splitFile)) {
+    throw new Error('Tracks cut from a video are finished only after the whole video, so --stream-archive cannot be combined with --split');
+  }
+  if (options.streamArchive && options.normalize === 'replaygain') {
+    throw new Error('ReplayGain album values need every track, so --stream-archive cannot be combined with --normalize replaygain');
+  }
+}
+
+// Archive paths always use "/"
+function archivePath(tempDir: string, filePath: string): string {
+  return path.relative(tempDir, filePath).split(path.sep).join('/');
+}
+
+/**
+ * Opens the archive tracks are streamed into. A resumed run keeps its split and normalization
+ * settings, which may rule streaming out; it then falls back to packing after the last track.
+ */
+function openStreamingArchive(
+  options: DownloadPlaylistOptions & ResolvedPipelineOptions,
+  archiveOptions: ArchiveOptions
+): ArchiveWriter | null {
+  try {
+    validateArchiveOptions(options);
+  } catch (error) {
+    options.log.warn(`${error instanceof Error ? error.message : 'Unknown error'}; the archive is created after the last track instead`);
+    return null;
+  }
+  return createArchiveWriter(archiveOptions);
+}
+
+/**
+ * Final folder of a song when not zipping
+ */
+export function songFolderFor(
+  outputDir: string,
+  folderTemplate: string,
+  playlistName: string,
+  sanitize: SanitizeOptions
+): (song: Song) => string {
+  return (song) => path.join(outputDir, renderTemplate(folderTemplate, songTemplateValues(song, playlistName), sanitize));
+}
+
+/**
+ * ZIP file name without extension; uses the uploader if available: "Album Name — Artist"
+ */
+export function archiveNameFor(playlist: Playlist, options: DownloadPlaylistOptions): string {
+  return options.archiveName ?? (playlist.uploader ? `${playlist.name} — ${playlist.uploader}` : playlist.name);
+}
+
+/**
+ * Downloads a playlist, album, video or channel into a ZIP or folders.
+ *
+ * Progress is reported through options.events. Aborting options.signal stops the run cleanly:
+ * the result is then marked cancelled and points at the temp dir, which a later call resumes from.
+ * Throws when the URL or options are invalid, the playlist can't be fetched or no song downloaded.
+ */
+export async function downloadPlaylist(url: string, options: DownloadPlaylistOptions): Promise<DownloadResult> {
+  const resolved = resolvePipelineOptions(options);
+  const folderTemplate = options.folderTemplate ?? DEFAULT_FOLDER_TEMPLATE;
+  const zip = options.zip ?? true;
+  validateTemplate(folderTemplate, 'folder template');
+  if (zip) {
+    validateArchiveOptions(resolved);
+  }
+
+  const target = await resolveTarget(url, resolved);
+
+  // Pick up an interrupted run for the same playlist if there is one
+  let tempDir = options.resume === false ? null : findInterruptedRun(options.tempDir ?? options.outputDir, target.id);
+  let state = tempDir ? readRunState(tempDir) : null;
+  let playlist: Playlist;
+
+  if (tempDir && state) {
+    // A resumed run keeps the settings it started with so finished files still match
+    playlist = state.playlist;
+    resolved.quality = state.quality;
+    resolved.audioFormat = state.audioFormat;
+    resolved.filenameTemplate = state.filenameTemplate ?? DEFAULT_FILENAME_TEMPLATE;
+    resolved.asciiFilenames = state.asciiFilenames ?? false;
+    resolved.normalize = state.normalize;
+    resolved.loudnessTarget = state.loudnessTarget ?? resolved.loudnessTarget;
+    resolved.split = state.split;
+    resolved.splitFile = state.splitFile;
+    resolved.trimSilence = state.trimSilence;
+    emitEvent(options.events, {
+      type: 'playlist-resolved',
+      playlistId: target.id,
+      kind: target.kind,
+      name: playlist.name,
+      uploader: playlist.uploader,
+      totalCount: playlist.totalCount,
+      resumed: true,
+      resumedSongs: state.songs.filter((job) => job.status === 'converted' || job.status === 'tagged').length,
+    });
+    checkDiskSpace({ songs: playlist.songs, tempDir, state }, resolved, options.outputDir, zip);
+  } else {
+    playlist = await fetchPlaylist(target, resolved);
+    // A partial run covers only the chosen songs, and so does its playlist file
+    const { selected: songs } = await selectTracks(playlist.songs, resolved, options.songIds ? new Set(options.songIds) : undefined);
+    if (songs.length === 0) {
+      throw new Error('No tracks of the playlist match the selection');
+    }
+    playlist = { ...playlist, songs };
+    checkDiskSpace({ songs, tempDir: tempDirFor(resolved, Date.now()) }, resolved, options.outputDir, zip);
+    tempDir = createTempDir(resolved);
+    state = createRunState(url, target.id, playlist, resolved.audioFormat, resolved.quality, {
+      filenameTemplate: resolved.filenameTemplate,
+      asciiFilenames: resolved.asciiFilenames,
+      normalize: resolved.normalize,
+      loudnessTarget: resolved.loudnessTarget,
+      split: resolved.split,
+      splitFile: resolved.splitFile,
+      trimSilence: resolved.trimSilence,
+    });
+    saveRunState(tempDir, state);
+  }
+
+  const sanitize = sanitizeOptionsFor(resolved);
+
+  const songFolder = songFolderFor(options.outputDir, folderTemplate, playlist.name, sanitize);
+  const archiveOptions: ArchiveOptions = {
+    outputDir: options.outputDir,
+    name: sanitizeFilename(archiveNameFor(playlist, options), sanitize),
+    format: options.archiveFormat,
+    splitSize: options.splitSize,
+    log: resolved.log,
+  };
+
+  const archive = zip && options.streamArchive ? openStreamingArchive(resolved, archiveOptions) : null;
+
+  // Running out of disk space stops the run like a cancellation, so it can be resumed
+  const stopWatching = guardDiskSpace(tempDir, resolved);
+  const { successfulDownloads, failedDownloads } = await downloadAndTag(
+    {
+      songs: playlist.songs,
+      playlistName: playlist.name,
+      tempDir,
+      state,
+      ...(zip ? {} : { finalDir: songFolder }),
+      ...(archive ? { onSongReady: (download: SongResult) => archive.add(download.filePath, archivePath(tempDir, download.filePath)) } : {}),
+    },
+    resolved
+  )
+    .catch((error) => {
+      archive?.abort();
+      throw error;
+    })
+    .finally(stopWatching);
+
+  // Results and playlist files list split videos as the tracks cut from them, in playlist order
+  const listed: Playlist = { ...playlist, songs: expandSplitSongs(playlist.songs, successfulDownloads.map((result) => result.song)) };
+  const playlistOrder = new Map(listed.songs.map((song, index) => [song.id, index]));
+  const result = (location: string, zipPath: string | null, totalBytes: number, songs: SongResult[]): DownloadResult => ({
+    playlistId: target.id,
+    playlistName: playlist.name,
+    location,
+    zipPath,
+    successCount: successfulDownloads.length,
+    failedCount: failedDownloads.length,
+    cancelled: Boolean(resolved.signal?.aborted),
+    totalSize: totalBytes / (1024 * 1024),
+    songs: songs.sort((a, b) => (playlistOrder.get(a.song.id) ?? 0) - (playlistOrder.get(b.song.id) ?? 0)),
+  });
+
+  if (resolved.signal?.aborted) {
+    archive?.abort();
+    emitEvent(options.events, {
+      type: 'summary',
+      command: 'download',
+      location: tempDir,
+      succeeded: successfulDownloads.length,
+      failed: failedDownloads.length,
+      cancelled: true,
+      failures: summarizeFailures(failedDownloads),
+    });
+    return result(tempDir, null, 0, [...successfulDownloads, ...failedDownloads]);
+  }
+
+  const failureSettings = { zip, ...(zip ? { archiveFormat: options.archiveFormat } : { folderTemplate }) };
+  if (successfulDownloads.length === 0) {
+    archive?.abort();
+    reportFailures('download', url, target.id, playlist, null, failedDownloads, resolved, failureSettings);
+    throw new Error('No songs were downloaded successfully');
+  }
+
+  // Step 5: Create the archive or move the files into place
+  let finalResult: DownloadResult;
+
+  if (zip) {
+    emitEvent(options.events, { type: 'zip', status: 'started' });
+
+    // The playlist file and a manifest go into the archive next to the tracks
+    writePlaylistFile(
+      tempDir,
+      listed,
+      new Map(successfulDownloads.map((song) => [song.song.id, song.filePath])),
+      failedDownloads,
+      resolved
+    );
+    const manifest = createManifest(target.id, listed);
+    for (const download of successfulDownloads) {
+      // Trimmed tracks are shorter than their chapter, so their length isn't recorded for verify
+      const song = resolved.trimSilence && download.song.sourceId ? { ...download.song, duration: 0 } : download.song;
+      recordTrack(manifest, song, archivePath(tempDir, download.filePath));
+    }
+    writeManifest(tempDir, manifest);
+
+    // A streamed archive already holds the tracks; otherwise it needs room for a copy of every one
+    if (resolved.spaceCheck && !archive) {
+      const shortfall = shortfallOf(spaceNeeds([{ path: options.outputDir, bytes: getDirectorySize(tempDir) }])[0]!);
+      if (shortfall) {
+        throw new Error(`Not enough disk space for the archive: ${shortfall}. The tracks stay in ${tempDir}; free up space and run the same command again to pack them`);
+      }
+    }
+
+    const writer = archive ?? createArchiveWriter(archiveOptions);
+    let archived: ArchiveResult;
+    try {
+      writer.add(path.join(tempDir, MANIFEST_FILENAME), MANIFEST_FILENAME);
+      writer.addDirectory(tempDir);
+      archived = await writer.finish();
+    } catch (error) {
+      writer.abort();
+      throw error;
+    }
+
+    emitEvent(options.events, {
+      type: 'zip',
+      status: 'completed',
+      path: archived.archivePath,
+      size: archived.totalSize,
+      fileCount: archived.fileCount,
+      ...(archived.volumes.length > 1 ? { volumes: archived.volumes } : {}),
+    });
+
+    // Clean up temp directory
+    fs.rmSync(tempDir, { recursive: true, force: true });
+
+    // Songs now live inside the archive rather than at their temp paths
+    finalResult = {
+      ...result(archived.archivePath, archived.archivePath, archived.totalSize, [
+        ...successfulDownloads.map((song) => ({ ...song, filePath: path.relative(tempDir!, song.filePath) })),
+        ...failedDownloads,
+      ]),
+      ...(archived.volumes.length > 1 ? { volumes: archived.volumes } : {}),
+    };
+  } else {
+    // Move files from temp to output, filing each song under the folder template
+    const finalDirs = new Set<string>();
+    const finalFiles = new Map<string, string>();
+    const moved: SongResult[] = [];
+    let totalBytes = 0;
+
+    for (const download of successfulDownloads) {
+      const finalDir = songFolder(download.song);
+      const destination = path.join(finalDir, path.relative(tempDir, download.filePath));
+      fs.mkdirSync(path.dirname(destination), { recursive: true });
+      fs.renameSync(download.filePath, destination);
+      finalDirs.add(finalDir);
+      finalFiles.set(download.song.id, destination);
+      moved.push({ ...download, filePath: destination });
+      totalBytes += fs.statSync(destination).size;
+
+      // Folder artwork follows the tracks it was made for
+      const tempCover = path.join(path.dirname(download.filePath), COVER_FILENAME);
+      const finalCover = path.join(path.dirname(destination), COVER_FILENAME);
+      if (fs.existsSync(tempCover) && !fs.existsSync(finalCover)) {
+        fs.copyFileSync(tempCover, finalCover);
+      }
+    }
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    const finalPath = finalDirs.size === 1 ? [...finalDirs][0]! : options.outputDir;
+    writePlaylistFile(finalPath, listed, finalFiles, failedDownloads, resolved);
+    finalResult = result(finalPath, null, totalBytes, [...moved, ...failedDownloads]);
+  }
+
+  const report = reportFailures('download', url, target.id, playlist, finalResult.location, failedDownloads, resolved, failureSettings);
+  emitEvent(options.events, {
+    type: 'summary',
+    command: 'download',
+    location: finalResult.location,
+    succeeded: finalResult.successCount,
+    failed: finalResult.failedCount,
+    cancelled: false,
+    failures: summarizeFailures(failedDownloads),
+    report,
+  });
+
+  return finalResult;
+}
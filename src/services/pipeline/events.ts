@@ -0,0 +1,37 @@
+import { EventEmitter } from 'events';
+import { createLogger, type Logger } from '../../utils/logger.js';
+import type { ProgressEvent } from '../../types/index.js';
+
+// Listener signatures: one channel per event type, plus "event" for every event
+export type DownloadEventMap = {
+  [K in ProgressEvent['type'] | 'event']: [event: K extends 'event' ? ProgressEvent : Extract<ProgressEvent, { type: K }>];
+};
+
+export type DownloadEvents = EventEmitter<DownloadEventMap>;
+
+/**
+ * Creates a typed emitter to pass to downloadPlaylist/syncPlaylist
+ */
+export function createDownloadEvents(): DownloadEvents {
+  return new EventEmitter<DownloadEventMap>();
+}
+
+/**
+ * Emits an event on its own channel and on "event"
+ */
+export function emitEvent(events: DownloadEvents | undefined, event: ProgressEvent): void {
+  if (!events) {
+    return;
+  }
+  // TypeScript can't match a union event to its channel, so emit through the untyped base
+  const emitter = events as EventEmitter;
+  emitter.emit(event.type, event);
+  emitter.emit('event', event);
+}
+
+/**
+ * A logger that sends messages as "log" events; without events they are dropped
+ */
+export function eventLogger(events: DownloadEvents | undefined): Logger {
+  return createLogger((level, message) => emitEvent(events, { type: 'log', level, message }));
+}
@@ -0,0 +1,130 @@
+import path from 'path';
+import { assignSongNames } from '../downloader/downloader.js';
+import { AUDIO_FORMATS } from '../downloader/formats.js';
+import { estimateBitrate } from '../downloader/quality.js';
+import { songTags } from '../metadata/tagger.js';
+import { playlistFileNames } from '../playlist/playlistFile.js';
+import { createManifest, planSync, readManifest } from '../sync/manifest.js';
+import { findInterruptedRun } from '../state/runState.js';
+import { sanitizeFilename } from '../../utils/validator.js';
+import { DEFAULT_FOLDER_TEMPLATE, validateTemplate } from '../../utils/template.js';
+import { emitEvent } from './events.js';
+import {
+  fetchPlaylist,
+  loadChapters,
+  resolvePipelineOptions,
+  resolveTarget,
+  sanitizeOptionsFor,
+  selectTracks,
+  songOutputName,
+  splitTracksOf,
+  tempDirFor,
+} from './common.js';
+import { archiveNameFor, songFolderFor, type DownloadPlaylistOptions } from './download.js';
+import { syncFolderFor, type SyncPlaylistOptions } from './sync.js';
+import type { PlannedTrack, PlaylistPlan, Song } from '../../types/index.js';
+
+export type PlanOptions = DownloadPlaylistOptions & SyncPlaylistOptions;
+
+/**
+ * Works out what downloadPlaylist or syncPlaylist would do with the same options: the files it
+ * would write with their tags and estimated sizes, and the tracks the selection leaves out.
+ * Only the playlist metadata is fetched; nothing is downloaded and no file or folder is created.
+ */
+export async function planPlaylist(command: 'download' | 'sync', url: string, options: PlanOptions): Promise<PlaylistPlan> {
+  const resolved = resolvePipelineOptions(options);
+  const folderTemplate = options.folderTemplate ?? DEFAULT_FOLDER_TEMPLATE;
+  const zip = command === 'download' && (options.zip ?? true);
+  validateTemplate(folderTemplate, 'folder template');
+
+  const target = await resolveTarget(url, resolved);
+  const playlist = await fetchPlaylist(target, resolved);
+  const sanitize = sanitizeOptionsFor(resolved);
+  const spec = AUDIO_FORMATS[resolved.audioFormat];
+  const songIds = options.songIds ? new Set(options.songIds) : undefined;
+
+  // Names without a known final folder are fitted to the temp dir, as a real run does
+  const tempDir = tempDirFor(resolved, Date.now());
+  const fileName = (name: string) => `${name}.${spec.extension}`;
+
+  let songs: Song[];
+  let skipped: PlaylistPlan['skipped'];
+  let names: Map<Song, string>;
+  let filePath: (song: Song, name: string) => string;
+  let location: string;
+  const extra: Pick<PlaylistPlan, 'unchanged' | 'removed' | 'interruptedRun'> = {};
+
+  if (command === 'sync') {
+    const folder = syncFolderFor(options.outputDir, target.id, playlist, resolved);
+    const manifest = readManifest(folder) ?? createManifest(target.id, playlist);
+    const syncPlan = planSync(manifest, playlist, folder);
+    const candidates = new Set(syncPlan.toDownload.map((song) => song.id).filter((id) => !songIds || songIds.has(id)));
+    ({ selected: songs, skipped } = await selectTracks(playlist.songs, resolved, candidates));
+    await loadChapters(songs, resolved);
+    songs = splitTracksOf(songs, resolved);
+
+    const downloadIds = new Set(songs.map((song) => song.sourceId ?? song.id));
+    const reservedNames = manifest.tracks.filter((track) => !downloadIds.has(track.sourceId ?? track.id)).map((track) => track.file);
+    names = assignSongNames(songs, tempDir, spec, songOutputName(resolved, playlist.name, () => folder), reservedNames);
+    filePath = (_song, name) => path.join(folder, fileName(name));
+    location = folder;
+    extra.unchanged = syncPlan.unchanged.length;
+    extra.removed = syncPlan.removed.length;
+  } else {
+    ({ selected: songs, skipped } = await selectTracks(playlist.songs, resolved, songIds));
+    await loadChapters(songs, resolved);
+    songs = splitTracksOf(songs, resolved);
+
+    if (zip) {
+      names = assignSongNames(songs, tempDir, spec, songOutputName(resolved, playlist.name));
+      filePath = (_song, name) => fileName(name);
+      location = path.join(options.outputDir, `${sanitizeFilename(archiveNameFor(playlist, options), sanitize)}.${options.archiveFormat ?? 'zip'}`);
+    } else {
+      const songFolder = songFolderFor(options.outputDir, folderTemplate, playlist.name, sanitize);
+      names = assignSongNames(songs, tempDir, spec, songOutputName(resolved, playlist.name, songFolder));
+      filePath = (song, name) => path.join(songFolder(song), fileName(name));
+      const folders = new Set(songs.map(songFolder));
+      location = folders.size === 1 ? [...folders][0]! : options.outputDir;
+    }
+
+    const interruptedRun = options.resume === false ? null : findInterruptedRun(options.tempDir ?? options.outputDir, target.id);
+    if (interruptedRun) {
+      extra.interruptedRun = interruptedRun;
+    }
+  }
+
+  const bytesPerSecond = (estimateBitrate(resolved.quality, spec, resolved.normalize === 'loudnorm') * 1000) / 8;
+  const tracks = songs.map((song): PlannedTrack => {
+    const name = names.get(song)!;
+    const renderedName = songOutputName(resolved, playlist.name)(song);
+    return {
+      songId: song.id,
+      title: song.title,
+      path: filePath(song, name),
+      renamed: name.includes(`[${song.id}]`) && !renderedName.includes(`[${song.id}]`),
+      duration: song.duration,
+      estimatedBytes: Math.round(song.duration * bytesPerSecond),
+      ...(resolved.metadata ? { tags: songTags(song) } : {}),
+    };
+  });
+
+  const playlistFiles = resolved.playlistFile
+    ? playlistFileNames(playlist.name, { xspf: Boolean(resolved.xspf), sanitize }).map((name) => (zip ? name : path.join(location, name)))
+    : [];
+
+  const plan: PlaylistPlan = {
+    command,
+    playlistId: target.id,
+    playlistName: playlist.name,
+    location,
+    zip,
+    audioFormat: resolved.audioFormat,
+    tracks,
+    skipped,
+    playlistFiles,
+    estimatedBytes: tracks.reduce((total, track) => total + track.estimatedBytes, 0),
+    ...extra,
+  };
+  emitEvent(options.events, { type: 'plan', ...plan });
+  return plan;
+}
@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import { createPipelineQueues } from '../downloader/downloader.js';
+import { readFailedReport } from '../report/failedReport.js';
+import { sanitizeFilename } from '../../utils/validator.js';
+import { downloadPlaylist } from './download.js';
+import { syncPlaylist } from './sync.js';
+import { emitEvent } from './events.js';
+import type { BatchOptions } from './batch.js';
+import type { PipelineOptions } from './common.js';
+import type { ArchiveFormat, BatchItemResult, FailedPlaylist, FailureKind } from '../../types/index.js';
+
+export interface RetryFailedOptions
+  extends Omit<
+      PipelineOptions,
+      | 'outputDir'
+      | 'audioFormat'
+      | 'quality'
+      | 'filenameTemplate'
+      | 'asciiFilenames'
+      | 'normalize'
+      | 'loudnessTarget'
+      | 'split'
+      | 'splitFile'
+      | 'trimSilence'
+      | 'songIds'
+    >,
+    Omit<BatchOptions, 'playlistConcurrency'> {
+  // Only retry songs that failed for these reasons
+  kinds?: FailureKind[] | undefined;
+}
+
+/**
+ * Name for the archive of retried songs, next to the original one and never replacing an earlier retry
+ */
+function retryArchiveName(entry: FailedPlaylist, outputDir: string, ascii: boolean, format: ArchiveFormat): string {
+  // The original archive may be one volume of several, e.g. "Mix.part1.zip"
+  const archive = entry.location?.match(/^(.*?)(?:\.part\d+)?\.(?:zip|tar|tar\.gz)$/);
+  const base = archive ? path.basename(archive[1]!) : entry.playlistName;
+  for (let index = 1; ; index++) {
+    const name = index === 1 ? `${base} (retried)` : `${base} (retried ${index})`;
+    const fileName = sanitizeFilename(name, { ascii });
+    if (!fs.existsSync(path.join(outputDir, `${fileName}.${format}`)) && !fs.existsSync(path.join(outputDir, `${fileName}.part1.${format}`))) {
+      return name;
+    }
+  }
+}
+
+/**
+ * Downloads the songs listed in a failed.json report again, with the settings of the runs that
+ * failed. Synced folders get the songs through a sync; downloads into folders get them filed
+ * next to the rest, and archive downloads get a separate "(retried)" archive. Songs that fail again stay
+ * in the report; the others are removed from it.
+ */
+export async function retryFailed(reportPath: string, options: RetryFailedOptions): Promise<BatchItemResult[]> {
+  if (!fs.existsSync(reportPath)) {
+    throw new Error(`No failure report at ${reportPath}`);
+  }
+
+  const { kinds, eventsFor, ...pipelineOptions } = options;
+  const report = readFailedReport(reportPath);
+  const outputDir = path.dirname(path.resolve(reportPath));
+  const queues = options.queues ?? createPipelineQueues(options.concurrency ?? 5, options.transcodeConcurrency ?? 2);
+  const results: BatchItemResult[] = [];
+
+  for (const [index, entry] of report.playlists.entries()) {
+    const songIds = entry.songs.filter((song) => !kinds || kinds.includes(song.kind)).map((song) => song.id);
+    if (songIds.length === 0) {
+      continue;
+    }
+    if (options.signal?.aborted) {
+      results.push({ url: entry.url, status: 'cancelled', playlistName: entry.playlistName, succeeded: 0, failed: 0 });
+      continue;
+    }
+
+    const { settings } = entry;
+    const runOptions: PipelineOptions = {
+      ...pipelineOptions,
+      ...settings,
+      outputDir,
+      queues,
+      songIds,
+      events: eventsFor ? eventsFor(entry.url, index) : options.events,
+    };
+
+    try {
+      if (entry.command === 'sync') {
+        const result = await syncPlaylist(entry.url, runOptions);
+        results.push({
+          url: entry.url,
+          status: result.cancelled ? 'cancelled' : 'completed',
+          playlistName: result.playlistName,
+          location: result.folder,
+          succeeded: result.addedCount,
+          failed: result.failedCount,
+        });
+      } else {
+        const zip = settings.zip ?? true;
+        const archiveFormat = settings.archiveFormat ?? 'zip';
+        const result = await downloadPlaylist(entry.url, {
+          ...runOptions,
+          zip,
+          resume: false,
+          // A folder's playlist file lists the whole playlist, so it is left as it is
+          ...(zip
+            ? { archiveFormat, archiveName: retryArchiveName(entry, outputDir, settings.asciiFilenames, archiveFormat) }
+            : { playlistFile: false }),
+        });
+        results.push({
+          url: entry.url,
+          status: result.cancelled ? 'cancelled' : 'completed',
+          playlistName: result.playlistName,
+          location: result.location,
+          succeeded: result.successCount,
+          failed: result.failedCount,
+        });
+      }
+    } catch (error) {
+      results.push({
+        url: entry.url,
+        status: options.signal?.aborted ? 'cancelled' : 'failed',
+        playlistName: entry.playlistName,
+        succeeded: 0,
+        failed: songIds.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  emitEvent(options.events, { type: 'batch-summary', command: 'retry-failed', playlists: results });
+  return results;
+}
@@ -0,0 +1,200 @@
+import fs from 'fs';
+import path from 'path';
+import { COVER_FILENAME } from '../metadata/cover.js';
+import {
+  createManifest,
+  findManifestFolder,
+  forgetTrack,
+  planSync,
+  readManifest,
+  recordTrack,
+  writeManifest,
+} from '../sync/manifest.js';
+import { expandSplitSongs } from '../splitter/splitter.js';
+import { sanitizeFilename } from '../../utils/validator.js';
+import { emitEvent } from './events.js';
+import {
+  checkDiskSpace,
+  createTempDir,
+  downloadAndTag,
+  fetchPlaylist,
+  guardDiskSpace,
+  reportFailures,
+  selectTracks,
+  resolvePipelineOptions,
+  resolveTarget,
+  sanitizeOptionsFor,
+  splitTracksOf,
+  summarizeFailures,
+  tempDirFor,
+  writePlaylistFile,
+  type PipelineOptions,
+} from './common.js';
+import type { ManifestTrack, Playlist, Song, SongResult, SyncResult } from '../../types/index.js';
+
+export type RemovedTrackAction = 'keep' | 'delete' | 'move';
+
+export interface SyncPlaylistOptions extends PipelineOptions {
+  // What to do with tracks taken off the playlist (default: keep)
+  removed?: RemovedTrackAction | undefined;
+}
+
+/**
+ * Folder a playlist syncs into: the folder of a previous sync, even if the playlist was renamed since
+ */
+export function syncFolderFor(outputDir: string, playlistId: string, playlist: Playlist, options: PipelineOptions): string {
+  return findManifestFolder(outputDir, playlistId)
+    ?? path.join(outputDir, sanitizeFilename(playlist.name, sanitizeOptionsFor(options)));
+}
+
+/**
+ * Where a removed track is moved aside: its own path under _removed, with its ID added when a file
+ * moved aside by an earlier sync already has that name
+ */
+function removedPathFor(removedDir: string, track: ManifestTrack): string {
+  const target = path.join(removedDir, track.file);
+  if (!fs.existsSync(target)) {
+    return target;
+  }
+  const extension = path.extname(target);
+  return path.join(path.dirname(target), `${path.basename(target, extension)} [${track.id}]${extension}`);
+}
+
+/**
+ * Brings a playlist folder under outputDir up to date, downloading only tracks added since the last sync.
+ *
+ * Aborting options.signal stops the sync cleanly; finished tracks are recorded and the rest
+ * are fetched by the next sync.
+ */
+export async function syncPlaylist(url: string, options: SyncPlaylistOptions): Promise<SyncResult> {
+  const resolved = resolvePipelineOptions(options);
+  const { events } = resolved;
+
+  const target = await resolveTarget(url, resolved);
+  const playlist = await fetchPlaylist(target, resolved);
+
+  const folder = syncFolderFor(options.outputDir, target.id, playlist, resolved);
+  const manifest = readManifest(folder) ?? createManifest(target.id, playlist);
+  manifest.playlistName = playlist.name;
+
+  const plan = planSync(manifest, playlist, folder);
+  const toDownload = new Set(plan.toDownload.map((song) => song.id).filter((id) => !options.songIds || options.songIds.includes(id)));
+  plan.toDownload = (await selectTracks(playlist.songs, resolved, toDownload)).selected;
+  emitEvent(events, {
+    type: 'sync-plan',
+    unchanged: plan.unchanged.length,
+    added: plan.toDownload.length,
+    removed: plan.removed.length,
+  });
+  if (plan.toDownload.length > 0) {
+    checkDiskSpace({ songs: plan.toDownload, tempDir: tempDirFor(resolved, Date.now()) }, resolved, folder, false);
+  }
+
+  // Handle tracks taken off the playlist
+  const removedAction = options.removed ?? 'keep';
+  if (plan.removed.length > 0 && removedAction !== 'keep') {
+    const removedDir = path.join(folder, '_removed');
+    for (const track of plan.removed) {
+      const trackPath = path.join(folder, track.file);
+      if (fs.existsSync(trackPath)) {
+        if (removedAction === 'move') {
+          const movedPath = removedPathFor(removedDir, track);
+          fs.mkdirSync(path.dirname(movedPath), { recursive: true });
+          fs.renameSync(trackPath, movedPath);
+        } else {
+          fs.unlinkSync(trackPath);
+        }
+      }
+      forgetTrack(manifest, track.id);
+    }
+    resolved.log.info(`${removedAction === 'move' ? 'Moved aside' : 'Deleted'} ${plan.removed.length} removed tracks`);
+  }
+
+  let failedDownloads: SongResult[] = [];
+  const added: SongResult[] = [];
+  if (plan.toDownload.length > 0) {
+    const tempDir = createTempDir(resolved);
+    const downloadIds = new Set(plan.toDownload.map((song) => song.id));
+    // Running out of disk space stops the sync like a cancellation: finished tracks are kept
+    const stopWatching = guardDiskSpace(tempDir, resolved);
+    const downloaded = await downloadAndTag(
+      {
+        songs: plan.toDownload,
+        playlistName: playlist.name,
+        tempDir,
+        finalDir: () => folder,
+        // Tracks kept from earlier syncs keep their files; a new song with the same name gets a suffix
+        reservedNames: manifest.tracks.filter((track) => !downloadIds.has(track.sourceId ?? track.id)).map((track) => track.file),
+        albumTracks: plan.unchanged,
+        tagWhenCancelled: true,
+      },
+      resolved
+    ).finally(stopWatching);
+    failedDownloads = downloaded.failedDownloads;
+
+    // Move new tracks into the playlist folder and record them, also after an interruption.
+    // Videos a cancel stopped before they were split are left for the next sync.
+    const finished = downloaded.successfulDownloads.filter((result) =>
+      !resolved.signal?.aborted || splitTracksOf([result.song], resolved).length === 1
+    );
+    fs.mkdirSync(folder, { recursive: true });
+    for (const result of finished) {
+      const file = path.relative(tempDir, result.filePath);
+      fs.mkdirSync(path.dirname(path.join(folder, file)), { recursive: true });
+      fs.renameSync(result.filePath, path.join(folder, file));
+      // Trimmed tracks are shorter than their chapter, so their length isn't recorded for verify
+      recordTrack(manifest, resolved.trimSilence && result.song.sourceId ? { ...result.song, duration: 0 } : result.song, file);
+      added.push({ ...result, filePath: path.join(folder, file) });
+    }
+
+    // Keep the folder artwork from the first sync
+    const tempCover = path.join(tempDir, COVER_FILENAME);
+    if (fs.existsSync(tempCover) && !fs.existsSync(path.join(folder, COVER_FILENAME))) {
+      fs.renameSync(tempCover, path.join(folder, COVER_FILENAME));
+    }
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+
+  writeManifest(folder, manifest);
+
+  // Split videos are listed as their tracks, whether cut now or by an earlier sync
+  const addedSongs = new Map(added.map((result) => [result.song.id, result.song]));
+  const splitTracks = manifest.tracks
+    .filter((track) => track.sourceId)
+    .map((track): Song => addedSongs.get(track.id)
+      ?? { id: track.id, title: track.title, artist: track.artist, duration: 0, sourceId: track.sourceId });
+  writePlaylistFile(
+    folder,
+    { ...playlist, songs: expandSplitSongs(playlist.songs, splitTracks) },
+    new Map(manifest.tracks.map((track) => [track.id, path.join(folder, track.file)])),
+    failedDownloads,
+    resolved
+  );
+
+  const cancelled = Boolean(resolved.signal?.aborted);
+  const report = cancelled ? undefined : reportFailures('sync', url, target.id, playlist, folder, failedDownloads, resolved);
+  emitEvent(events, {
+    type: 'summary',
+    command: 'sync',
+    location: folder,
+    succeeded: added.length,
+    failed: failedDownloads.length,
+    cancelled,
+    tracks: manifest.tracks.length,
+    failures: summarizeFailures(failedDownloads),
+    report,
+  });
+
+  return {
+    playlistId: target.id,
+    playlistName: playlist.name,
+    folder,
+    addedCount: added.length,
+    removedCount: removedAction === 'keep' ? 0 : plan.removed.length,
+    failedCount: failedDownloads.length,
+    trackCount: manifest.tracks.length,
+    cancelled,
+    songs: [...added, ...failedDownloads],
+  };
+}
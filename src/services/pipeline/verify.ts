@@ -0,0 +1,233 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getFormatForFile } from '../downloader/formats.js';
+import { parseM3u8 } from '../playlist/playlistFile.js';
+import { MANIFEST_FILENAME } from '../sync/manifest.js';
+import { verifyAudioFile } from '../verify/verify.js';
+import { extractTar, openZipReader, type ZipReader } from '../zipper/zipper.js';
+import { emitEvent, type DownloadEvents } from './events.js';
+import type { PlaylistManifest, VerifyReport } from '../../types/index.js';
+
+export interface VerifyDownloadOptions {
+  // Report files without title and artist tags (default: true)
+  tags?: boolean | undefined;
+  signal?: AbortSignal | undefined;
+  events?: DownloadEvents | undefined;
+}
+
+// A track the download should contain, with the length it should have when known
+interface ExpectedTrack {
+  file: string;
+  duration?: number | undefined;
+}
+
+// A folder or archive being audited; file paths are relative and always use "/"
+interface DownloadSource {
+  files: Set<string>;
+  read(file: string): Promise<string>;
+  // Path of the file on disk for FFmpeg; pass it to release when done
+  open(file: string): Promise<string>;
+  release(localPath: string): void;
+  close(): void;
+}
+
+function toSourcePath(file: string): string {
+  return file.split(path.sep).join('/');
+}
+
+// Every file under a folder except hidden ones, but keeping the manifest at its top
+function listFolder(folder: string, prefix = ''): string[] {
+  return fs.readdirSync(path.join(folder, prefix), { withFileTypes: true }).flatMap((entry) => {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.name.startsWith('.') && relative !== MANIFEST_FILENAME) {
+      return [];
+    }
+    return entry.isDirectory() ? listFolder(folder, relative) : [relative];
+  });
+}
+
+function openFolder(folder: string): DownloadSource {
+  return {
+    files: new Set(listFolder(folder)),
+    read: async (file) => fs.readFileSync(path.join(folder, file), 'utf-8'),
+    open: async (file) => path.join(folder, file),
+    release: () => {},
+    close: () => {},
+  };
+}
+
+const ARCHIVE_PATTERN = /\.(zip|tar|tar\.gz|tgz)$/i;
+const VOLUME_PATTERN = /^(.*)\.part(\d+)\.(zip|tar|tar\.gz|tgz)$/i;
+
+/**
+ * The volumes an archive was split into, in order, when it is one of them; else just the archive
+ */
+function archiveVolumes(archivePath: string): string[] {
+  const volume = path.basename(archivePath).match(VOLUME_PATTERN);
+  if (!volume) {
+    return [archivePath];
+  }
+  const dir = path.dirname(archivePath);
+  return fs
+    .readdirSync(dir)
+    .map((name) => name.match(VOLUME_PATTERN))
+    .filter((match) => match !== null && match[1] === volume[1] && match[3] === volume[3])
+    .sort((a, b) => Number(a![2]) - Number(b![2]))
+    .map((match) => path.join(dir, match![0]));
+}
+
+// ZIP entries are checked one at a time from a scratch folder, so the archive is never unpacked whole
+async function openZip(volumes: string[]): Promise<DownloadSource> {
+  const readers: ZipReader[] = [];
+  const readerOf = new Map<string, ZipReader>();
+  try {
+    for (const volume of volumes) {
+      const reader = await openZipReader(volume);
+      readers.push(reader);
+      reader.files.forEach((file) => readerOf.set(file, reader));
+    }
+  } catch (error) {
+    readers.forEach((reader) => reader.close());
+    throw error;
+  }
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ytpld-verify-'));
+  let extracted = 0;
+
+  const extract = async (file: string): Promise<string> => {
+    const destination = path.join(workDir, `${++extracted}-${path.basename(file)}`);
+    await readerOf.get(file)!.extract(file, destination);
+    return destination;
+  };
+
+  return {
+    files: new Set(readerOf.keys()),
+    read: async (file) => {
+      const localPath = await extract(file);
+      try {
+        return fs.readFileSync(localPath, 'utf-8');
+      } finally {
+        fs.rmSync(localPath, { force: true });
+      }
+    },
+    open: extract,
+    release: (localPath) => fs.rmSync(localPath, { force: true }),
+    close: () => {
+      readers.forEach((reader) => reader.close());
+      fs.rmSync(workDir, { recursive: true, force: true });
+    },
+  };
+}
+
+// Tar archives can't be read an entry at a time, so they are unpacked into a scratch folder first
+async function openTar(volumes: string[]): Promise<DownloadSource> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ytpld-verify-'));
+  try {
+    for (const volume of volumes) {
+      await extractTar(volume, workDir);
+    }
+  } catch (error) {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    throw error;
+  }
+  return { ...openFolder(workDir), close: () => fs.rmSync(workDir, { recursive: true, force: true }) };
+}
+
+/**
+ * Works out what a download should contain: the tracks in its manifest, else the entries of its
+ * M3U8 playlist file, else simply every audio file in it
+ */
+async function expectedTracks(source: DownloadSource): Promise<{ source: VerifyReport['source']; tracks: ExpectedTrack[] }> {
+  if (source.files.has(MANIFEST_FILENAME)) {
+    const manifest = JSON.parse(await source.read(MANIFEST_FILENAME)) as PlaylistManifest;
+    if (!Array.isArray(manifest.tracks)) {
+      throw new Error(`Invalid manifest ${MANIFEST_FILENAME}`);
+    }
+    return {
+      source: 'manifest',
+      tracks: manifest.tracks.map((track) => ({ file: toSourcePath(track.file), duration: track.duration })),
+    };
+  }
+
+  const playlistFile = [...source.files].find((file) => !file.includes('/') && file.toLowerCase().endsWith('.m3u8'));
+  if (playlistFile) {
+    return {
+      source: 'playlist',
+      tracks: parseM3u8(await source.read(playlistFile)).map((entry) => ({ file: entry.file, duration: entry.duration })),
+    };
+  }
+
+  return {
+    source: 'files',
+    tracks: [...source.files].filter((file) => getFormatForFile(file) !== null).sort().map((file) => ({ file })),
+  };
+}
+
+/**
+ * Audits a finished download, a folder or an archive (ZIP, tar or tar.gz, or any volume of a split
+ * one), against its manifest or playlist file: every listed track must be there, decode cleanly,
+ * have the expected length and carry its tags. Files are checked one after another; the report
+ * lists the missing and broken ones.
+ */
+export async function verifyDownload(location: string, options: VerifyDownloadOptions = {}): Promise<VerifyReport> {
+  if (!fs.existsSync(location)) {
+    throw new Error(`Nothing to verify at ${location}`);
+  }
+
+  const isArchive = fs.statSync(location).isFile();
+  if (isArchive && !ARCHIVE_PATTERN.test(location)) {
+    throw new Error(`${location} is neither a folder nor a ZIP, tar or tar.gz archive`);
+  }
+
+  let source: DownloadSource;
+  if (!isArchive) {
+    source = openFolder(location);
+  } else if (location.toLowerCase().endsWith('.zip')) {
+    source = await openZip(archiveVolumes(location));
+  } else {
+    source = await openTar(archiveVolumes(location));
+  }
+  try {
+    const expected = await expectedTracks(source);
+    const report: VerifyReport = {
+      location,
+      source: expected.source,
+      checked: 0,
+      ok: 0,
+      bad: [],
+      missing: [],
+    };
+
+    for (const track of expected.tracks) {
+      if (options.signal?.aborted) {
+        throw new Error('Cancelled');
+      }
+      if (!source.files.has(track.file)) {
+        report.missing.push(track.file);
+        emitEvent(options.events, { type: 'verify', file: track.file, problems: ['Missing'] });
+        continue;
+      }
+
+      const localPath = await source.open(track.file);
+      let problems: string[];
+      try {
+        problems = await verifyAudioFile(localPath, { duration: track.duration, tags: options.tags ?? true }, options.signal);
+      } finally {
+        source.release(localPath);
+      }
+
+      report.checked++;
+      if (problems.length > 0) {
+        report.bad.push({ file: track.file, problems });
+      } else {
+        report.ok++;
+      }
+      emitEvent(options.events, { type: 'verify', file: track.file, problems });
+    }
+
+    emitEvent(options.events, { type: 'verify-summary', ...report });
+    return report;
+  } finally {
+    source.close();
+  }
+}
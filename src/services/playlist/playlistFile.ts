@@ -0,0 +1,181 @@
+import fs from 'fs';
+import path from 'path';
+import { sanitizeFilename, type SanitizeOptions } from '../../utils/validator.js';
+import type { Song } from '../../types/index.js';
+
+// One song of a playlist file: its file relative to the playlist file, or null when it failed
+export interface PlaylistEntry {
+  song: Song;
+  file: string | null;
+  error?: string | undefined;
+}
+
+export interface PlaylistFileOptions {
+  xspf?: boolean;
+  sanitize?: SanitizeOptions;
+}
+
+function songLabel(song: Song): string {
+  return `${song.artist} - ${song.title}`;
+}
+
+// Tracks cut from a longer video link to that video
+function songUrl(song: Song): string {
+  return `https://www.youtube.com/watch?v=${song.sourceId ?? song.id}`;
+}
+
+// Playlist files always use "/" so they work when the folder is copied to another OS
+function toPlaylistPath(file: string): string {
+  return file.split(path.sep).join('/');
+}
+
+// Keeps line breaks in titles and errors from breaking the one-entry-per-line format
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// "--" is not allowed inside an XML comment
+function escapeXmlComment(value: string): string {
+  return value.replace(/-{2,}/g, '-');
+}
+
+/**
+ * Builds an extended M3U playlist (UTF-8) in playlist order; failed songs are kept as comments
+ */
+export function buildM3u8(name: string, entries: PlaylistEntry[]): string {
+  const lines = ['#EXTM3U', `#PLAYLIST:${singleLine(name)}`];
+
+  for (const { song, file, error } of entries) {
+    if (file) {
+      lines.push(`#EXTINF:${Math.round(song.duration) || -1},${singleLine(songLabel(song))}`);
+      lines.push(toPlaylistPath(file));
+    } else {
+      lines.push(`# Failed: ${singleLine(songLabel(song))} (${songUrl(song)})${error ? ` - ${singleLine(error)}` : ''}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Reads the files an M3U8 playlist lists, with the length its #EXTINF line gives (0 when unknown).
+ * Comment lines, failed songs included, are skipped.
+ */
+export function parseM3u8(text: string): Array<{ file: string; duration: number }> {
+  const files: Array<{ file: string; duration: number }> = [];
+  let duration = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const info = line.match(/^#EXTINF:(-?[\d.]+)/);
+    if (info) {
+      duration = Math.max(0, Number(info[1]));
+    } else if (line && !line.startsWith('#')) {
+      files.push({ file: line, duration });
+      duration = 0;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Builds an XSPF playlist in playlist order; failed songs are kept as XML comments
+ */
+export function buildXspf(name: string, entries: PlaylistEntry[]): string {
+  const tracks = entries.map(({ song, file, error }) => {
+    if (!file) {
+      const detail = error ? ` - ${error}` : '';
+      return `    <!-- Failed: ${escapeXmlComment(`${songLabel(song)} (${songUrl(song)})${detail}`)} -->`;
+    }
+
+    const location = toPlaylistPath(file).split('/').map(encodeURIComponent).join('/');
+    return [
+      '    <track>',
+      `      <location>${escapeXml(location)}</location>`,
+      `      <title>${escapeXml(song.title)}</title>`,
+      `      <creator>${escapeXml(song.artist)}</creator>`,
+      ...(song.album ? [`      <album>${escapeXml(song.album)}</album>`] : []),
+      ...(song.trackNumber ? [`      <trackNum>${song.trackNumber}</trackNum>`] : []),
+      ...(song.duration ? [`      <duration>${Math.round(song.duration * 1000)}</duration>`] : []),
+      `      <info>${escapeXml(songUrl(song))}</info>`,
+      '    </track>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(name)}</title>`,
+    '  <trackList>',
+    ...tracks,
+    '  </trackList>',
+    '</playlist>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Writes "<name>.m3u8" (and "<name>.xspf" when asked) into a folder; entry files are relative to it.
+ * Returns the paths written.
+ */
+export function writePlaylistFiles(
+  folder: string,
+  name: string,
+  entries: PlaylistEntry[],
+  options: PlaylistFileOptions = {}
+): string[] {
+  const [m3uName, xspfName] = playlistFileNames(name, options);
+  const written: string[] = [];
+
+  fs.mkdirSync(folder, { recursive: true });
+
+  const m3uPath = path.join(folder, m3uName!);
+  fs.writeFileSync(m3uPath, buildM3u8(name, entries));
+  written.push(m3uPath);
+
+  if (xspfName) {
+    const xspfPath = path.join(folder, xspfName);
+    fs.writeFileSync(xspfPath, buildXspf(name, entries));
+    written.push(xspfPath);
+  }
+
+  return written;
+}
+
+/**
+ * File names writePlaylistFiles uses for a playlist: the M3U8 first, then the XSPF when asked
+ */
+export function playlistFileNames(name: string, options: PlaylistFileOptions = {}): string[] {
+  const baseName = sanitizeFilename(name, options.sanitize) || 'playlist';
+  return options.xspf ? [`${baseName}.m3u8`, `${baseName}.xspf`] : [`${baseName}.m3u8`];
+}
+
+/**
+ * Lines up download results with the playlist order, giving each file relative to the playlist folder.
+ * Songs without a file (failed or not downloaded) keep their place as failed entries.
+ */
+export function buildPlaylistEntries(
+  songs: Song[],
+  files: Map<string, string>,
+  folder: string,
+  errors: Map<string, string> = new Map()
+): PlaylistEntry[] {
+  return songs.map((song) => {
+    const file = files.get(song.id);
+    return {
+      song,
+      file: file ? path.relative(folder, file) : null,
+      error: errors.get(song.id),
+    };
+  });
+}
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseDuration, parseItems, selectSongs, validateSelection } from './selection.js';
+import type { Song } from '../../types/index.js';
+
+function song(id: string, title: string, duration = 200, artist = 'Artist'): Song {
+  return { id, title, artist, duration };
+}
+
+const songs = [
+  song('a', 'Intro', 40),
+  song('b', 'First Song'),
+  song('c', 'First Song (Live)', 320),
+  song('d', 'Full Album Mix', 3600),
+  song('e', 'Unknown Length', 0),
+];
+
+// IDs of the selected songs and the reason each skipped one was left out
+function select(selection: Parameters<typeof selectSongs>[1], list: Song[] = songs) {
+  const { selected, skipped } = selectSongs(list, selection);
+  return {
+    selected: selected.map((entry) => entry.id),
+    skipped: Object.fromEntries(skipped.map((entry) => [entry.songId, entry.reason])),
+  };
+}
+
+describe('parseItems', () => {
+  it('parses single positions, ranges and open ranges', () => {
+    assert.deepEqual(parseItems('1-3, 5,8-'), [
+      { from: 1, to: 3 },
+      { from: 5, to: 5 },
+      { from: 8, to: Infinity },
+    ]);
+  });
+
+  it('rejects zero, reversed and malformed ranges', () => {
+    for (const spec of ['0', '5-2', 'a-b', '1,,2', '-3', '']) {
+      assert.throws(() => parseItems(spec), /Invalid item range/, spec);
+    }
+  });
+});
+
+describe('parseDuration', () => {
+  it('reads seconds, m:ss and h:mm:ss', () => {
+    assert.equal(parseDuration('90'), 90);
+    assert.equal(parseDuration('1:30'), 90);
+    assert.equal(parseDuration('1:00:00'), 3600);
+    assert.equal(parseDuration(' 2.5 '), 2.5);
+  });
+
+  it('rejects other formats', () => {
+    for (const value of ['1:2:3:4', '1m30s', '-5', '']) {
+      assert.throws(() => parseDuration(value), /Invalid duration/, value);
+    }
+  });
+});
+
+describe('selectSongs', () => {
+  it('keeps every song without a selection', () => {
+    assert.deepEqual(select({}).selected, ['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('picks positions in the playlist as given', () => {
+    assert.deepEqual(select({ items: '2,4-' }), {
+      selected: ['b', 'd', 'e'],
+      skipped: { a: 'position', c: 'position' },
+    });
+  });
+
+  it('filters titles case-insensitively', () => {
+    assert.deepEqual(select({ matchTitle: 'first', rejectTitle: '\\(live\\)' }), {
+      selected: ['b'],
+      skipped: { a: 'title', c: 'title', d: 'title', e: 'title' },
+    });
+  });
+
+  it('filters by duration and keeps songs of unknown length', () => {
+    assert.deepEqual(select({ minDuration: 60, maxDuration: 900 }), {
+      selected: ['b', 'c', 'e'],
+      skipped: { a: 'duration', d: 'duration' },
+    });
+  });
+
+  it('always skips repeated video IDs and repeated titles only when asked', () => {
+    const list = [song('a', 'Song'), song('a', 'Song'), song('b', 'song'), song('c', 'Song', 200, 'Someone Else')];
+    assert.deepEqual(select({}, list), { selected: ['a', 'b', 'c'], skipped: { a: 'duplicate' } });
+    assert.deepEqual(select({ dedupeTitles: true }, list).selected, ['a', 'c']);
+  });
+
+  it('reports the first reason that applies', () => {
+    assert.deepEqual(select({ items: '1-2', matchTitle: 'Song' }).skipped, { a: 'title', c: 'position', d: 'position', e: 'position' });
+  });
+});
+
+describe('validateSelection', () => {
+  it('rejects bad patterns and reversed duration bounds', () => {
+    assert.throws(() => validateSelection({ matchTitle: '(' }), /Invalid match-title pattern/);
+    assert.throws(() => validateSelection({ minDuration: 600, maxDuration: 60 }), /minimum duration is longer/);
+    assert.doesNotThrow(() => validateSelection({ items: '1-5', rejectTitle: 'remix', minDuration: 60 }));
+  });
+});
@@ -0,0 +1,116 @@
+import type { SkippedSong, Song } from '../../types/index.js';
+
+// Which tracks of a playlist to download
+export interface TrackSelection {
+  // 1-based playlist positions such as "1-10,15,20-"
+  items?: string | undefined;
+  // Regex a title must match / must not match (case-insensitive)
+  matchTitle?: string | undefined;
+  rejectTitle?: string | undefined;
+  // Bounds in seconds; tracks of unknown length are kept
+  minDuration?: number | undefined;
+  maxDuration?: number | undefined;
+  // Also skip tracks with the same artist and title as an earlier one (duplicate video IDs always are)
+  dedupeTitles?: boolean | undefined;
+}
+
+interface PositionRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Parses a position list like "1-10,15,20-" into ranges
+ */
+export function parseItems(spec: string): PositionRange[] {
+  return spec.split(',').map((part) => {
+    const match = part.trim().match(/^(\d+)(?:(-)(\d+)?)?$/);
+    const from = Number(match?.[1]);
+    const to = match?.[2] ? (match[3] ? Number(match[3]) : Infinity) : from;
+    if (!match || from < 1 || to < from) {
+      throw new Error(`Invalid item range "${part.trim()}" in "${spec}". Use positions like 1-10,15,20-`);
+    }
+    return { from, to };
+  });
+}
+
+/**
+ * Parses a duration given as seconds or as m:ss / h:mm:ss
+ */
+export function parseDuration(value: string): number {
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some((part) => !/^\d+(?:\.\d+)?$/.test(part))) {
+    throw new Error(`Invalid duration "${value}". Use seconds (90) or m:ss / h:mm:ss (1:30, 1:00:00)`);
+  }
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+function compileTitlePattern(source: string, name: string): RegExp {
+  try {
+    return new RegExp(source, 'i');
+  } catch (error) {
+    throw new Error(`Invalid ${name} pattern "${source}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Checks a selection so mistakes fail before anything is fetched
+ */
+export function validateSelection(selection: TrackSelection): void {
+  if (selection.items) {
+    parseItems(selection.items);
+  }
+  if (selection.matchTitle) {
+    compileTitlePattern(selection.matchTitle, 'match-title');
+  }
+  if (selection.rejectTitle) {
+    compileTitlePattern(selection.rejectTitle, 'reject-title');
+  }
+  if (selection.minDuration !== undefined && selection.maxDuration !== undefined && selection.minDuration > selection.maxDuration) {
+    throw new Error('The minimum duration is longer than the maximum duration');
+  }
+}
+
+// Loose artist + title key, so "Song (feat. X)" and "song (Feat. X)" count as the same track
+function titleKey(song: Song): string {
+  return `${song.artist} ${song.title}`.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Applies a selection to the songs of a playlist, keeping playlist order.
+ * Positions refer to the songs as given, before anything is filtered out.
+ */
+export function selectSongs(songs: Song[], selection: TrackSelection = {}): { selected: Song[]; skipped: SkippedSong[] } {
+  const ranges = selection.items ? parseItems(selection.items) : null;
+  const matchTitle = selection.matchTitle ? compileTitlePattern(selection.matchTitle, 'match-title') : null;
+  const rejectTitle = selection.rejectTitle ? compileTitlePattern(selection.rejectTitle, 'reject-title') : null;
+  const seenIds = new Set<string>();
+  const seenTitles = new Set<string>();
+  const selected: Song[] = [];
+  const skipped: SkippedSong[] = [];
+
+  for (const [index, song] of songs.entries()) {
+    const position = index + 1;
+    const skip = (reason: SkippedSong['reason']) => skipped.push({ songId: song.id, title: song.title, reason });
+
+    if (ranges && !ranges.some((range) => position >= range.from && position <= range.to)) {
+      skip('position');
+    } else if ((matchTitle && !matchTitle.test(song.title)) || rejectTitle?.test(song.title)) {
+      skip('title');
+    } else if (
+      song.duration > 0
+      && ((selection.minDuration !== undefined && song.duration < selection.minDuration)
+        || (selection.maxDuration !== undefined && song.duration > selection.maxDuration))
+    ) {
+      skip('duration');
+    } else if (seenIds.has(song.id) || (selection.dedupeTitles && seenTitles.has(titleKey(song)))) {
+      skip('duplicate');
+    } else {
+      seenIds.add(song.id);
+      seenTitles.add(titleKey(song));
+      selected.push(song);
+    }
+  }
+
+  return { selected, skipped };
+}
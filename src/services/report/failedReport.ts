@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import type { FailedPlaylist, FailedReport } from '../../types/index.js';
+
+export const FAILED_REPORT_FILENAME = 'failed.json';
+const FAILED_REPORT_VERSION = 1;
+
+/**
+ * Reads a failed.json report, or an empty one if the file doesn't exist
+ */
+export function readFailedReport(reportPath: string): FailedReport {
+  if (!fs.existsSync(reportPath)) {
+    return { version: FAILED_REPORT_VERSION, updatedAt: new Date().toISOString(), playlists: [] };
+  }
+
+  try {
+    const report = JSON.parse(fs.readFileSync(reportPath, 'utf-8')) as FailedReport;
+    if (report.version !== FAILED_REPORT_VERSION || !Array.isArray(report.playlists)) {
+      throw new Error(`unsupported report version ${report.version}`);
+    }
+    return report;
+  } catch (error) {
+    throw new Error(`Invalid failure report at ${reportPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Writes a report atomically; a report without failures is removed
+ */
+export function writeFailedReport(reportPath: string, report: FailedReport): void {
+  if (report.playlists.length === 0) {
+    fs.rmSync(reportPath, { force: true });
+    return;
+  }
+
+  const tempPath = `${reportPath}.tmp`;
+  report.updatedAt = new Date().toISOString();
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(tempPath, JSON.stringify(report, null, 2));
+  fs.renameSync(tempPath, reportPath);
+}
+
+/**
+ * Replaces a playlist's entry in the output dir's failed.json with its latest failures.
+ * When only some songs were retried (retriedIds), the playlist's other failures stay listed.
+ * Returns the report path if it still lists the playlist.
+ */
+export function recordFailures(outputDir: string, entry: FailedPlaylist, retriedIds?: string[]): string | null {
+  const reportPath = path.join(outputDir, FAILED_REPORT_FILENAME);
+  const report = readFailedReport(reportPath);
+  const matches = (other: FailedPlaylist) => other.command === entry.command && other.playlistId === entry.playlistId;
+  const previous = report.playlists.find(matches);
+
+  if (entry.songs.length === 0 && !previous) {
+    return null;
+  }
+
+  const retried = new Set(retriedIds);
+  const kept = retriedIds && previous ? previous.songs.filter((song) => !retried.has(song.id)) : [];
+  const songs = [...kept, ...entry.songs];
+
+  report.playlists = report.playlists.filter((other) => !matches(other));
+  if (songs.length > 0) {
+    // A retry keeps the location and settings of the run that first failed
+    report.playlists.push(retriedIds && previous ? { ...previous, failedAt: entry.failedAt, songs } : { ...entry, songs });
+  }
+  writeFailedReport(reportPath, report);
+  return songs.length > 0 ? reportPath : null;
+}
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseJobRequest } from './jobs.js';
+
+describe('parseJobRequest', () => {
+  it('keeps the URL and the known settings', () => {
+    assert.deepEqual(parseJobRequest({ url: 'https://music.youtube.com/playlist?list=OLAK5uy_abc-123', audioFormat: 'opus', xspf: true }), {
+      url: 'https://music.youtube.com/playlist?list=OLAK5uy_abc-123',
+      audioFormat: 'opus',
+      xspf: true,
+    });
+  });
+
+  it('rejects URLs with shell metacharacters in the ID', () => {
+    const urls = [
+      'https://youtu.be/x";touch /tmp/pwn;"',
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ;id',
+      'https://www.youtube.com/playlist?list=PL123$(id)',
+      'https://music.youtube.com/browse/MPREb`id`',
+      'https://www.youtube.com/@name";touch /tmp/pwn;"',
+    ];
+    for (const url of urls) {
+      assert.throws(() => parseJobRequest({ url }), /"url" must be a YouTube/, url);
+    }
+  });
+
+  it('rejects bodies that are not objects and fields of the wrong type', () => {
+    assert.throws(() => parseJobRequest([]), /must be a JSON object/);
+    assert.throws(() => parseJobRequest({ url: 'https://youtu.be/dQw4w9WgXcQ', metadata: 'yes' }), /"metadata" must be true or false/);
+  });
+});
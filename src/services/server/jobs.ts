@@ -0,0 +1,350 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import PQueue from 'p-queue';
+import { downloadPlaylist, type DownloadPlaylistOptions } from '../pipeline/download.js';
+import { resolvePipelineOptions } from '../pipeline/common.js';
+import { createDownloadEvents } from '../pipeline/events.js';
+import { isAudioFormat } from '../downloader/formats.js';
+import { parseQuality } from '../downloader/quality.js';
+import { silentLogger, type Logger } from '../../utils/logger.js';
+import { isValidYouTubeUrl, parseYouTubeUrl } from '../../utils/validator.js';
+import { validateTemplate } from '../../utils/template.js';
+import type { AudioQuality, Job, JobRequest, JobSong, ProgressEvent } from '../../types/index.js';
+
+export const JOBS_FILENAME = '.ytpld-jobs.json';
+const JOBS_VERSION = 1;
+
+export interface JobManagerOptions {
+  outputDir: string;
+  tempDir: string;
+  // Jobs downloading at the same time; further jobs wait in the queue
+  maxJobs: number;
+  cookiesFile?: string | undefined;
+  concurrency?: number | undefined;
+  transcodeConcurrency?: number | undefined;
+  // Receives job start, finish and resume messages (default: dropped)
+  log?: Logger | undefined;
+}
+
+// Everything a job listener is told: progress events, then the final job once it stops
+export type JobListener = (event: ProgressEvent | { type: 'end'; job: Job }) => void;
+
+export interface JobManager {
+  // Validates and queues a request; throws on invalid requests
+  submit(request: JobRequest): Job;
+  get(id: string): Job | undefined;
+  list(): Job[];
+  // Cancels a queued or running job; false when it already finished
+  cancel(id: string): boolean;
+  // Follows a job's events; returns null when the job is not queued or running
+  subscribe(id: string, listener: JobListener): (() => void) | null;
+  // Stops running jobs so they resume on the next start
+  shutdown(): Promise<void>;
+}
+
+interface JobsFile {
+  version: number;
+  jobs: Job[];
+}
+
+const BOOLEAN_FIELDS = ['smartBitrate', 'asciiFilenames', 'preferVideo', 'metadata', 'cleanTitles', 'xspf'] as const;
+const NUMBER_FIELDS = ['sampleRate', 'channels'] as const;
+const STRING_FIELDS = ['quality', 'filenameTemplate'] as const;
+
+/**
+ * Checks the shape of a job request body
+ */
+export function parseJobRequest(body: unknown): JobRequest {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error('Request body must be a JSON object');
+  }
+
+  const input = body as Record<string, unknown>;
+  // parseYouTubeUrl only accepts IDs made of [A-Za-z0-9_-] (and handles of [\w.-]), so nothing else reaches yt-dlp
+  if (typeof input.url !== 'string' || !isValidYouTubeUrl(input.url) || !parseYouTubeUrl(input.url)) {
+    throw new Error('"url" must be a YouTube (Music) playlist, album, video or channel URL');
+  }
+
+  const request: JobRequest = { url: input.url };
+
+  if (input.audioFormat !== undefined) {
+    if (typeof input.audioFormat !== 'string' || !isAudioFormat(input.audioFormat)) {
+      throw new Error(`Unknown "audioFormat": ${String(input.audioFormat)}`);
+    }
+    request.audioFormat = input.audioFormat;
+  }
+
+  for (const field of BOOLEAN_FIELDS) {
+    if (input[field] !== undefined) {
+      if (typeof input[field] !== 'boolean') {
+        throw new Error(`"${field}" must be true or false`);
+      }
+      request[field] = input[field];
+    }
+  }
+
+  for (const field of NUMBER_FIELDS) {
+    if (input[field] !== undefined) {
+      if (typeof input[field] !== 'number' || !Number.isInteger(input[field])) {
+        throw new Error(`"${field}" must be a whole number`);
+      }
+      request[field] = input[field];
+    }
+  }
+
+  for (const field of STRING_FIELDS) {
+    if (input[field] !== undefined) {
+      if (typeof input[field] !== 'string') {
+        throw new Error(`"${field}" must be a string`);
+      }
+      request[field] = input[field];
+    }
+  }
+
+  if (input.titleNoise !== undefined) {
+    if (!Array.isArray(input.titleNoise) || !input.titleNoise.every((pattern) => typeof pattern === 'string')) {
+      throw new Error('"titleNoise" must be an array of strings');
+    }
+    request.titleNoise = input.titleNoise;
+  }
+
+  return request;
+}
+
+function jobsFilePath(outputDir: string): string {
+  return path.join(outputDir, JOBS_FILENAME);
+}
+
+function readJobs(outputDir: string, log: Logger): Job[] {
+  const filePath = jobsFilePath(outputDir);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  try {
+    const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as JobsFile;
+    return file.version === JOBS_VERSION && Array.isArray(file.jobs) ? file.jobs : [];
+  } catch (error) {
+    log.warn(`Ignoring unreadable job history at ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return [];
+  }
+}
+
+// Writes the job history atomically so a crash mid-write never corrupts it
+function writeJobs(outputDir: string, jobs: Job[]): void {
+  const filePath = jobsFilePath(outputDir);
+  const tempPath = `${filePath}.tmp`;
+  const file: JobsFile = { version: JOBS_VERSION, jobs };
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(tempPath, JSON.stringify(file, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Creates the server's job queue. Jobs from an earlier session that never finished are queued
+ * again and resume from their saved run state.
+ */
+export function createJobManager(options: JobManagerOptions): JobManager {
+  const log = options.log ?? silentLogger;
+  const jobs = new Map<string, Job>(readJobs(options.outputDir, log).map((job) => [job.id, job]));
+  const queue = new PQueue({ concurrency: options.maxJobs });
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Map<string, Set<JobListener>>();
+  let stopping = false;
+
+  const save = () => writeJobs(options.outputDir, [...jobs.values()]);
+
+  const notify = (job: Job, event: ProgressEvent | { type: 'end'; job: Job }) => {
+    for (const listener of listeners.get(job.id) ?? []) {
+      listener(event);
+    }
+  };
+
+  const toDownloadOptions = (job: Job, signal?: AbortSignal): DownloadPlaylistOptions => {
+    const { request } = job;
+    const quality: AudioQuality = parseQuality(request.quality ?? 'auto');
+    if (request.sampleRate) quality.sampleRate = request.sampleRate;
+    if (request.channels) quality.channels = request.channels;
+    if (request.smartBitrate) quality.capToSource = true;
+
+    return {
+      // Each job gets its own folders so jobs for the same playlist never share files or run state
+      outputDir: path.join(options.outputDir, job.id),
+      tempDir: path.join(options.tempDir, job.id),
+      concurrency: options.concurrency,
+      transcodeConcurrency: options.transcodeConcurrency,
+      cookiesFile: options.cookiesFile,
+      audioFormat: request.audioFormat,
+      quality,
+      filenameTemplate: request.filenameTemplate,
+      asciiFilenames: request.asciiFilenames,
+      preferVideo: request.preferVideo,
+      metadata: request.metadata,
+      cleanTitles: request.cleanTitles,
+      titleNoise: request.titleNoise,
+      xspf: request.xspf,
+      zip: true,
+      signal,
+    };
+  };
+
+  const updateSong = (job: Job, event: Extract<ProgressEvent, { type: 'song-state' }>): boolean => {
+    const song: JobSong = {
+      id: event.songId,
+      title: event.title,
+      status: event.status,
+      progress: event.progress,
+      error: event.error,
+    };
+    const index = job.songs.findIndex((existing) => existing.id === event.songId);
+    if (index >= 0) {
+      job.songs[index] = song;
+    } else {
+      job.songs.push(song);
+    }
+    // Byte progress is only streamed; finished states are worth persisting
+    return event.status === 'completed' || event.status === 'failed' || event.status === 'tagged';
+  };
+
+  const run = async (job: Job) => {
+    if (job.status !== 'queued' || stopping) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const events = createDownloadEvents();
+    controllers.set(job.id, controller);
+
+    events.on('event', (event) => {
+      if (event.type === 'playlist-resolved') {
+        job.playlistName = event.name;
+        save();
+      } else if (event.type === 'song-state' && updateSong(job, event)) {
+        save();
+      }
+      notify(job, event);
+    });
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    save();
+    log.info(`Job ${job.id} started: ${job.request.url}`);
+
+    try {
+      const result = await downloadPlaylist(job.request.url, { ...toDownloadOptions(job, controller.signal), events });
+      if (result.cancelled && stopping) {
+        // Interrupted by shutdown: pick it up again on the next start
+        job.status = 'queued';
+      } else if (result.cancelled) {
+        job.status = 'cancelled';
+      } else {
+        job.status = 'completed';
+        job.result = result;
+      }
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+    } finally {
+      controllers.delete(job.id);
+      if (job.status !== 'queued') {
+        // Only jobs stopped by a shutdown resume, so nothing else needs its run state
+        job.finishedAt = new Date().toISOString();
+        fs.rmSync(path.join(options.tempDir, job.id), { recursive: true, force: true });
+      }
+      save();
+      log.info(`Job ${job.id} ${job.status}${job.error ? `: ${job.error}` : ''}`);
+      notify(job, { type: 'end', job });
+      listeners.delete(job.id);
+    }
+  };
+
+  const enqueue = (job: Job) => {
+    queue.add(() => run(job));
+  };
+
+  // Unfinished jobs from a previous session go back into the queue, oldest first
+  const unfinished = [...jobs.values()]
+    .filter((job) => job.status === 'queued' || job.status === 'running')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  for (const job of unfinished) {
+    job.status = 'queued';
+    enqueue(job);
+  }
+  if (unfinished.length > 0) {
+    save();
+    log.info(`Resuming ${unfinished.length} unfinished jobs`);
+  }
+
+  return {
+    submit(request) {
+      const job: Job = {
+        id: randomUUID(),
+        request,
+        status: 'queued',
+        createdAt: new Date().toISOString(),
+        songs: [],
+      };
+
+      // Fail fast on options the download would reject
+      if (request.filenameTemplate) {
+        validateTemplate(request.filenameTemplate, '"filenameTemplate"');
+      }
+      resolvePipelineOptions(toDownloadOptions(job));
+
+      jobs.set(job.id, job);
+      save();
+      enqueue(job);
+      return job;
+    },
+
+    get(id) {
+      return jobs.get(id);
+    },
+
+    list() {
+      return [...jobs.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    cancel(id) {
+      const job = jobs.get(id);
+      if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+        return false;
+      }
+
+      const controller = controllers.get(id);
+      if (controller) {
+        controller.abort();
+      } else {
+        job.status = 'cancelled';
+        job.finishedAt = new Date().toISOString();
+        save();
+        notify(job, { type: 'end', job });
+        listeners.delete(job.id);
+      }
+      return true;
+    },
+
+    subscribe(id, listener) {
+      const job = jobs.get(id);
+      if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+        return null;
+      }
+
+      const jobListeners = listeners.get(id) ?? new Set<JobListener>();
+      jobListeners.add(listener);
+      listeners.set(id, jobListeners);
+      return () => jobListeners.delete(listener);
+    },
+
+    async shutdown() {
+      stopping = true;
+      queue.clear();
+      for (const controller of controllers.values()) {
+        controller.abort();
+      }
+      await queue.onIdle();
+    },
+  };
+}
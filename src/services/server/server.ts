@@ -0,0 +1,225 @@
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import { parseJobRequest, type JobManager } from './jobs.js';
+import type { Job } from '../../types/index.js';
+
+// Largest accepted request body, in bytes
+const MAX_BODY_SIZE = 64 * 1024;
+// Comment line sent on idle event streams so proxies and browsers keep them open
+const SSE_HEARTBEAT_MS = 15000;
+
+const JOB_ROUTE = /^\/jobs\/([\w-]+)(?:\/(events|archive))?$/;
+
+// Small page for submitting jobs from a browser
+const INDEX_PAGE = `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>YouTube Playlist Downloader</title></head>
+<body style="font-family: sans-serif; max-width: 48rem; margin: 2rem auto">
+<h1>YouTube Playlist Downloader</h1>
+<form id="job">
+  <input name="url" placeholder="Playlist, album, video or channel URL" size="60" required>
+  <select name="audioFormat"><option>mp3</option><option>opus</option><option>m4a</option><option>flac</option><option>ogg</option></select>
+  <button>Download</button>
+</form>
+<ul id="jobs"></ul>
+<script>
+async function refresh() {
+  const jobs = await (await fetch('/jobs')).json();
+  document.getElementById('jobs').innerHTML = jobs.map((job) => {
+    const name = (job.playlistName || job.request.url).replace(/[&<>"]/g, (c) => '&#' + c.charCodeAt(0) + ';');
+    const done = job.songs.filter((song) => song.status === 'completed' || song.status === 'tagged').length;
+    const link = job.status === 'completed' ? ' <a href="/jobs/' + job.id + '/archive">ZIP</a>' : '';
+    return '<li>' + name + ' - ' + job.status + ' (' + done + ' songs)' + link + '</li>';
+  }).join('');
+}
+document.getElementById('job').addEventListener('submit', async (event) => {
+  event.preventDefault();
+  const form = new FormData(event.target);
+  const response = await fetch('/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(Object.fromEntries(form)),
+  });
+  if (!response.ok) alert((await response.json()).error);
+  event.target.reset();
+  refresh();
+});
+refresh();
+setInterval(refresh, 3000);
+</script>
+</body>
+</html>
+`;
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { error: message });
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new Error('Request body is too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(new Error('Request body must be valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function writeSse(res: http.ServerResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Streams a job's progress events over Server-Sent Events, starting with the current job state
+ */
+function streamEvents(res: http.ServerResponse, job: Job, jobs: JobManager): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  writeSse(res, 'job', job);
+
+  const unsubscribe = jobs.subscribe(job.id, (event) => {
+    writeSse(res, event.type, event.type === 'end' ? event.job : event);
+    if (event.type === 'end') {
+      res.end();
+    }
+  });
+
+  // Finished jobs have nothing more to stream
+  if (!unsubscribe) {
+    writeSse(res, 'end', job);
+    res.end();
+    return;
+  }
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+  // The response closes when the job ends or the client goes away
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
+
+/**
+ * Sends the ZIP of a completed job
+ */
+function sendArchive(res: http.ServerResponse, job: Job): void {
+  const zipPath = job.result?.zipPath;
+  if (job.status !== 'completed' || !zipPath) {
+    sendError(res, 409, `Job is ${job.status}; the archive is available once it completes`);
+    return;
+  }
+  if (!fs.existsSync(zipPath)) {
+    sendError(res, 410, 'The archive has been removed from the server');
+    return;
+  }
+
+  const fileName = path.basename(zipPath);
+  res.writeHead(200, {
+    'Content-Type': 'application/zip',
+    'Content-Length': fs.statSync(zipPath).size,
+    // RFC 5987 keeps non-ASCII playlist names intact
+    'Content-Disposition': `attachment; filename="${fileName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+  });
+  fs.createReadStream(zipPath).pipe(res);
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse, jobs: JobManager): Promise<void> {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  const method = req.method ?? 'GET';
+
+  if (pathname === '/' && method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(INDEX_PAGE);
+    return;
+  }
+
+  if (pathname === '/jobs') {
+    if (method === 'GET') {
+      sendJson(res, 200, jobs.list());
+    } else if (method === 'POST') {
+      // Requiring JSON means other web pages can't submit jobs without a CORS preflight, which is never allowed
+      if (!req.headers['content-type']?.startsWith('application/json')) {
+        sendError(res, 415, 'Content-Type must be application/json');
+        return;
+      }
+      try {
+        const job = jobs.submit(parseJobRequest(await readJsonBody(req)));
+        sendJson(res, 202, job);
+      } catch (error) {
+        sendError(res, 400, error instanceof Error ? error.message : 'Invalid request');
+      }
+    } else {
+      sendError(res, 405, 'Method not allowed');
+    }
+    return;
+  }
+
+  const match = pathname.match(JOB_ROUTE);
+  const job = match?.[1] ? jobs.get(match[1]) : undefined;
+  if (!match || !job) {
+    sendError(res, 404, 'Not found');
+    return;
+  }
+
+  const action = match[2];
+  if (!action && method === 'GET') {
+    sendJson(res, 200, job);
+  } else if (!action && method === 'DELETE') {
+    if (jobs.cancel(job.id)) {
+      sendJson(res, 202, job);
+    } else {
+      sendError(res, 409, `Job is already ${job.status}`);
+    }
+  } else if (action === 'events' && method === 'GET') {
+    streamEvents(res, job, jobs);
+  } else if (action === 'archive' && method === 'GET') {
+    sendArchive(res, job);
+  } else {
+    sendError(res, 405, 'Method not allowed');
+  }
+}
+
+/**
+ * Creates the HTTP server:
+ *   POST /jobs               queue a download (JSON body: { url, audioFormat?, quality?, ... })
+ *   GET  /jobs               job history, newest first
+ *   GET  /jobs/:id           job status and per-song results
+ *   DELETE /jobs/:id         cancel a queued or running job
+ *   GET  /jobs/:id/events    live progress as Server-Sent Events
+ *   GET  /jobs/:id/archive   the finished ZIP
+ */
+export function createJobServer(jobs: JobManager): http.Server {
+  return http.createServer((req, res) => {
+    handleRequest(req, res, jobs).catch((error) => {
+      if (!res.headersSent) {
+        sendError(res, 500, error instanceof Error ? error.message : 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+}
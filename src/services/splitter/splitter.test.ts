@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { chapterSongs, expandSplitSongs, parseCueSheet, parseTimestamps } from './splitter.js';
+import type { Chapter, Song } from '../../types/index.js';
+
+const video: Song = { id: 'vid', title: 'Live at the Hall', artist: 'The Band', duration: 600, coverUrl: 'https://example.com/cover.jpg' };
+
+// Titles of the tracks cut from chapters with these titles, one minute apart
+function titlesFor(titles: string[]): string[] {
+  const chapters: Chapter[] = titles.map((title, index) => ({ title, start: index * 60 }));
+  return chapterSongs(video, chapters).map((song) => song.title);
+}
+
+describe('parseCueSheet', () => {
+  it('reads tracks with their titles, performers and INDEX 01 starts', () => {
+    const sheet = [
+      'REM GENRE Rock',
+      'PERFORMER "The Band"',
+      'TITLE "Live at the Hall"',
+      'FILE "live.wav" WAVE',
+      '  TRACK 01 AUDIO',
+      '    TITLE "Opening"',
+      '    INDEX 01 00:00:00',
+      '  TRACK 02 AUDIO',
+      '    TITLE "With a Guest"',
+      '    PERFORMER "Guest"',
+      '    INDEX 00 03:58:00',
+      '    INDEX 01 04:00:15',
+      '  track 03 audio',
+      '    title Unquoted',
+      '    index 01 61:30:00',
+    ].join('\r\n');
+
+    assert.deepEqual(parseCueSheet(sheet), [
+      { title: 'Opening', start: 0, artist: 'The Band' },
+      { title: 'With a Guest', start: 240.2, artist: 'Guest' },
+      { title: 'Unquoted', start: 3690, artist: 'The Band' },
+    ]);
+  });
+
+  it('skips tracks without an INDEX 01', () => {
+    assert.deepEqual(parseCueSheet('TRACK 01 AUDIO\nTITLE "No start"\nTRACK 02 AUDIO\nINDEX 01 01:00:00'), [{ title: '', start: 60 }]);
+  });
+
+  it('rejects several files and malformed INDEX lines', () => {
+    assert.throws(() => parseCueSheet('FILE "a.wav" WAVE\nFILE "b.wav" WAVE'), /more than one FILE/);
+    assert.throws(() => parseCueSheet('TRACK 01 AUDIO\nINDEX 01 1:00'), /Invalid cue sheet INDEX "01 1:00"/);
+  });
+});
+
+describe('parseTimestamps', () => {
+  it('reads timestamps before or after the title', () => {
+    const text = ['Tracklist:', '0:00 Intro', '[03:45] Second Song', '3. Third Song - 7:02', '1:02:03.5 | Finale', ''].join('\n');
+    assert.deepEqual(parseTimestamps(text), [
+      { title: 'Intro', start: 0 },
+      { title: 'Second Song', start: 225 },
+      { title: '3. Third Song', start: 422 },
+      { title: 'Finale', start: 3723.5 },
+    ]);
+  });
+
+  it('rejects timestamps that do not increase', () => {
+    assert.throws(() => parseTimestamps('0:00 One\n2:00 Two\n1:00 Three'), /Timestamps must increase: "1:00 Three" comes after 120s/);
+  });
+});
+
+describe('expandSplitSongs', () => {
+  it('puts the tracks cut from a video in its place', () => {
+    const songs: Song[] = [{ id: 'a', title: 'A', artist: 'X', duration: 1 }, video, { id: 'b', title: 'B', artist: 'X', duration: 1 }];
+    const tracks = chapterSongs(video, [{ title: 'One', start: 0 }, { title: 'Two', start: 300 }]);
+    assert.deepEqual(expandSplitSongs(songs, tracks).map((song) => song.id), ['a', 'vid#1', 'vid#2', 'b']);
+  });
+});
+
+describe('chapterSongs', () => {
+  it('drops the numbering of numbered tracklists', () => {
+    assert.deepEqual(titlesFor(['01. Intro', '2) Second', '03 - Third', '4: Fourth']), ['Intro', 'Second', 'Third', 'Fourth']);
+  });
+
+  it('keeps numbers that are part of the title', () => {
+    assert.deepEqual(titlesFor(['911 - Two', '1999: Remix', '7 - Seven Nation Army']), ['911 - Two', '1999: Remix', '7 - Seven Nation Army']);
+  });
+
+  it('names untitled tracks by their position', () => {
+    assert.deepEqual(titlesFor(['', '2.']), ['Track 1', 'Track 2']);
+  });
+
+  it('makes an album of the video with one track per chapter', () => {
+    const [first, last] = chapterSongs(video, [
+      { title: 'Opening', start: 0 },
+      { title: 'Closing', start: 420, artist: 'Guest' },
+    ]);
+
+    assert.deepEqual(first, {
+      id: 'vid#1',
+      sourceId: 'vid',
+      title: 'Opening',
+      artist: 'The Band',
+      duration: 420,
+      coverUrl: video.coverUrl,
+      album: 'Live at the Hall',
+      albumArtist: 'The Band',
+      trackNumber: 1,
+      trackTotal: 2,
+      year: undefined,
+      genre: undefined,
+      chapters: [{ title: 'Opening', start: 0 }],
+    });
+    assert.equal(last!.artist, 'Guest');
+    assert.equal(last!.duration, 180);
+  });
+});
@@ -0,0 +1,223 @@
+import fs from 'fs';
+import path from 'path';
+import { runConversion } from '../downloader/downloader.js';
+import { buildEncodingPlans } from '../downloader/quality.js';
+import { parseDuration } from '../playlist/selection.js';
+import { probeAudio } from '../../utils/ffmpeg.js';
+import type { AudioFormatSpec } from '../downloader/formats.js';
+import type { AudioQuality, Chapter, Song } from '../../types/index.js';
+
+// Cue sheet times are mm:ss:ff with 75 frames per second
+const CUE_FRAMES_PER_SECOND = 75;
+// Cuts off leading and trailing silence below -50 dB; the audio is reversed to trim the end
+const TRIM_SILENCE_FILTER = [
+  'silenceremove=start_periods=1:start_threshold=-50dB:start_silence=0.2',
+  'areverse',
+  'silenceremove=start_periods=1:start_threshold=-50dB:start_silence=0.2',
+  'areverse',
+].join(',');
+
+// Cue sheet values may be quoted
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"') ? trimmed.slice(1, -1) : trimmed;
+}
+
+/**
+ * Parses the tracks of a cue sheet. Only sheets for one audio file are supported, since the
+ * video is a single file; a PERFORMER before the first track is the album artist.
+ */
+export function parseCueSheet(text: string): Chapter[] {
+  const chapters: Chapter[] = [];
+  let albumArtist: string | undefined;
+  let files = 0;
+  let current: Partial<Chapter> | null = null;
+
+  const finishTrack = () => {
+    if (current && current.start !== undefined) {
+      const artist = current.artist ?? albumArtist;
+      chapters.push({ title: current.title ?? '', start: current.start, ...(artist ? { artist } : {}) });
+    }
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.trim().match(/^(\S+)\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+    const keyword = match[1]!.toUpperCase();
+    const value = match[2]!;
+
+    switch (keyword) {
+      case 'FILE':
+        if (++files > 1) {
+          throw new Error('Cue sheets with more than one FILE are not supported');
+        }
+        break;
+      case 'TRACK':
+        finishTrack();
+        current = {};
+        break;
+      case 'TITLE':
+        if (current) {
+          current.title = unquote(value);
+        }
+        break;
+      case 'PERFORMER':
+        if (current) {
+          current.artist = unquote(value);
+        } else {
+          albumArtist = unquote(value);
+        }
+        break;
+      case 'INDEX': {
+        const index = value.match(/^(\d+)\s+(\d+):(\d{2}):(\d{2})$/);
+        if (!index) {
+          throw new Error(`Invalid cue sheet INDEX "${value}". Use INDEX 01 mm:ss:ff`);
+        }
+        // INDEX 00 marks the pregap; the track starts at INDEX 01
+        if (current && Number(index[1]) === 1) {
+          current.start = Number(index[2]) * 60 + Number(index[3]) + Number(index[4]) / CUE_FRAMES_PER_SECOND;
+        }
+        break;
+      }
+    }
+  }
+  finishTrack();
+
+  return chapters;
+}
+
+// A timestamp such as 3:45, 03:45 or 1:03:45, optionally in brackets
+const TIMESTAMP_PATTERN = /[[(]?((?:\d+:)?\d{1,2}:\d{2}(?:\.\d+)?)[\])]?/;
+
+/**
+ * Parses a tracklist with one timestamp per line, as found in video descriptions
+ * ("0:00 Intro", "1. Intro - 03:45"). Lines without a timestamp are ignored.
+ */
+export function parseTimestamps(text: string): Chapter[] {
+  const chapters: Chapter[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(TIMESTAMP_PATTERN);
+    if (!match) {
+      continue;
+    }
+
+    const start = parseDuration(match[1]!);
+    const previous = chapters[chapters.length - 1];
+    if (previous && start <= previous.start) {
+      throw new Error(`Timestamps must increase: "${line.trim()}" comes after ${previous.start}s`);
+    }
+
+    // The title is whatever surrounds the timestamp, minus separators like " - " or " | "
+    const clean = (part: string) => part.replace(/^[\s\-–—:|.]+|[\s\-–—:|]+$/g, '');
+    const title = [line.slice(0, match.index), line.slice(match.index! + match[0].length)].map(clean).filter(Boolean).join(' ');
+    chapters.push({ title, start });
+  }
+
+  return chapters;
+}
+
+/**
+ * Reads a user-supplied split file: a cue sheet when it ends in .cue, a timestamp list otherwise
+ */
+export function readSplitFile(filePath: string): Chapter[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Could not read split file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const chapters = path.extname(filePath).toLowerCase() === '.cue' ? parseCueSheet(text) : parseTimestamps(text);
+  if (chapters.length < 2) {
+    throw new Error(`Split file ${filePath} must list at least two tracks`);
+  }
+  return chapters;
+}
+
+/**
+ * Turns the chapters of a video into the songs cut from it. They form an album named after the
+ * video (or its album) and share its cover; IDs are "<videoId>#<track>".
+ */
+export function chapterSongs(song: Song, chapters: Chapter[]): Song[] {
+  const albumArtist = song.albumArtist ?? song.artist;
+
+  return chapters.map((chapter, index) => {
+    const end = chapter.end ?? chapters[index + 1]?.start ?? song.duration;
+    // Tracklists often number their titles; the track number tag carries that already. Only the
+    // track's own number is dropped, so titles that start with a number ("911 - Two") stay whole.
+    const numbering = chapter.title.match(/^(\d{1,3})\s*[.)\-–:]\s*/);
+    const title = (numbering && Number(numbering[1]) === index + 1 ? chapter.title.slice(numbering[0].length) : chapter.title).trim();
+
+    return {
+      id: `${song.id}#${index + 1}`,
+      sourceId: song.id,
+      title: title || `Track ${index + 1}`,
+      artist: chapter.artist ?? albumArtist,
+      duration: Math.max(0, end - chapter.start),
+      coverUrl: song.coverUrl,
+      album: song.album ?? song.title,
+      albumArtist,
+      trackNumber: index + 1,
+      trackTotal: chapters.length,
+      year: song.year,
+      genre: song.genre,
+      chapters: [chapter],
+    };
+  });
+}
+
+/**
+ * Replaces the videos that were split with the tracks cut from them, keeping playlist order
+ */
+export function expandSplitSongs(songs: Song[], tracks: Song[]): Song[] {
+  const tracksBySource = new Map<string, Song[]>();
+  for (const track of tracks) {
+    if (track.sourceId) {
+      tracksBySource.set(track.sourceId, [...(tracksBySource.get(track.sourceId) ?? []), track]);
+    }
+  }
+  return songs.flatMap((song) => tracksBySource.get(song.id) ?? [song]);
+}
+
+/**
+ * Cuts one track out of a converted file. Without silence trimming the stream is copied, so
+ * nothing is re-encoded unless the container refuses it; trimming needs a filter and so an encode.
+ */
+export async function cutTrack(
+  inputPath: string,
+  outputPath: string,
+  track: Song,
+  spec: AudioFormatSpec,
+  quality: AudioQuality,
+  trimSilence: boolean,
+  signal?: AbortSignal
+): Promise<void> {
+  const chapter = track.chapters?.[0];
+  if (!chapter) {
+    throw new Error(`"${track.title}" has no section to cut`);
+  }
+
+  const section = { start: chapter.start, duration: track.duration || undefined };
+  // Encode with the run's quality settings, or the format's defaults when it only copies streams
+  const encodeQuality: AudioQuality = quality.mode === 'source' ? { mode: 'auto' } : quality;
+  const source = encodeQuality.capToSource ? await probeAudio(inputPath) : null;
+  const encodePlans = buildEncodingPlans(encodeQuality, spec, source).filter((plan) => !plan.copy);
+  const plans = trimSilence
+    ? encodePlans.map((plan) => ({ ...plan, filter: TRIM_SILENCE_FILTER }))
+    : [{ copy: true, codec: 'copy' }, ...encodePlans];
+
+  for (const [index, plan] of plans.entries()) {
+    try {
+      await runConversion(inputPath, outputPath, spec, plan, signal, section);
+      return;
+    } catch (error) {
+      fs.rmSync(outputPath, { force: true });
+      if (signal?.aborted || index === plans.length - 1) {
+        throw error;
+      }
+    }
+  }
+}
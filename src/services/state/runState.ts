@@ -0,0 +1,145 @@
+import fs from 'fs';
+import path from 'path';
+import type { AudioFormat, AudioQuality, Playlist, RunState, SongJobStatus } from '../../types/index.js';
+
+export const RUN_STATE_FILENAME = '.ytpld-run.json';
+const RUN_STATE_VERSION = 1;
+
+/**
+ * Creates the state for a new run with every song pending
+ */
+export function createRunState(
+  url: string,
+  playlistId: string,
+  playlist: Playlist,
+  audioFormat: AudioFormat,
+  quality: AudioQuality,
+  settings: Pick<RunState, 'filenameTemplate' | 'asciiFilenames' | 'normalize' | 'loudnessTarget' | 'split' | 'splitFile' | 'trimSilence'>
+): RunState {
+  const now = new Date().toISOString();
+  return {
+    version: RUN_STATE_VERSION,
+    url,
+    playlistId,
+    playlist,
+    audioFormat,
+    quality,
+    filenameTemplate: settings.filenameTemplate,
+    asciiFilenames: settings.asciiFilenames,
+    normalize: settings.normalize,
+    loudnessTarget: settings.loudnessTarget,
+    split: settings.split,
+    splitFile: settings.splitFile,
+    trimSilence: settings.trimSilence,
+    createdAt: now,
+    updatedAt: now,
+    songs: playlist.songs.map((song) => ({ id: song.id, status: 'pending' })),
+  };
+}
+
+/**
+ * Reads the run state from a temp dir, or null if there is none or it is unreadable
+ */
+export function readRunState(tempDir: string): RunState | null {
+  const statePath = path.join(tempDir, RUN_STATE_FILENAME);
+  if (!fs.existsSync(statePath)) {
+    return null;
+  }
+
+  try {
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf-8')) as RunState;
+    return state.version === RUN_STATE_VERSION ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes the run state atomically so a crash mid-write never corrupts it
+ */
+export function saveRunState(tempDir: string, state: RunState): void {
+  const statePath = path.join(tempDir, RUN_STATE_FILENAME);
+  const tempPath = `${statePath}.tmp`;
+
+  state.updatedAt = new Date().toISOString();
+  fs.writeFileSync(tempPath, JSON.stringify(state, null, 2));
+  fs.renameSync(tempPath, statePath);
+}
+
+// Song transitions are written at most this often, so a crash loses at most this much progress
+const SAVE_INTERVAL_MS = 1000;
+
+// Records song transitions in memory and writes the state in batches
+export interface RunStateSaver {
+  setSongStatus(songId: string, status: SongJobStatus, error?: string): void;
+  // Writes pending transitions now
+  flush(): void;
+  // Flushes and stops listening for abort and exit
+  dispose(): void;
+}
+
+/**
+ * Creates a saver for a run's song transitions. Rewriting the whole state on every transition
+ * would cost a write per song and stage, so changes are saved at most once a second, and right
+ * away when the run is aborted or the process exits.
+ */
+export function createRunStateSaver(tempDir: string, state: RunState, signal?: AbortSignal): RunStateSaver {
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+      saveRunState(tempDir, state);
+    }
+  };
+
+  signal?.addEventListener('abort', flush);
+  process.on('exit', flush);
+
+  return {
+    setSongStatus: (songId, status, error) => {
+      const job = state.songs.find((s) => s.id === songId);
+      if (!job) {
+        return;
+      }
+
+      job.status = status;
+      if (error) {
+        job.error = error;
+      } else {
+        delete job.error;
+      }
+
+      if (!timer) {
+        timer = setTimeout(flush, SAVE_INTERVAL_MS);
+        timer.unref();
+      }
+    },
+    flush,
+    dispose: () => {
+      flush();
+      signal?.removeEventListener('abort', flush);
+      process.off('exit', flush);
+    },
+  };
+}
+
+/**
+ * Finds the most recent interrupted run for a playlist under the temp base directory
+ */
+export function findInterruptedRun(tempBaseDir: string, playlistId: string): string | null {
+  if (!fs.existsSync(tempBaseDir)) {
+    return null;
+  }
+
+  const candidates = fs
+    .readdirSync(tempBaseDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => path.join(tempBaseDir, entry.name))
+    .map((dir) => ({ dir, state: readRunState(dir) }))
+    .filter((candidate) => candidate.state?.playlistId === playlistId)
+    .sort((a, b) => b.state!.updatedAt.localeCompare(a.state!.updatedAt));
+
+  return candidates[0]?.dir ?? null;
+}
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { describe, it } from 'node:test';
+import { formatBytes, isTight, parseSize, sameFilesystem, shortfallOf, songBytes, spaceNeeds } from './diskSpace.js';
+
+describe('parseSize', () => {
+  it('reads bytes and binary units with an optional B or iB', () => {
+    assert.equal(parseSize('1048576'), 1024 ** 2);
+    assert.equal(parseSize('700M'), 700 * 1024 ** 2);
+    assert.equal(parseSize('700mb'), 700 * 1024 ** 2);
+    assert.equal(parseSize(' 2 GiB '), 2 * 1024 ** 3);
+    assert.equal(parseSize('1t'), 1024 ** 4);
+    assert.equal(parseSize('512KB'), 512 * 1024);
+  });
+
+  it('rounds fractional sizes to whole bytes', () => {
+    assert.equal(parseSize('1.5G'), 1.5 * 1024 ** 3);
+    assert.equal(parseSize('0.3K'), 307);
+  });
+
+  it('rejects zero, negative and unknown sizes', () => {
+    for (const value of ['0', '0M', '-1G', '2P', 'G', '2 G B', '']) {
+      assert.throws(() => parseSize(value), /Invalid size/, value);
+    }
+  });
+});
+
+describe('formatBytes', () => {
+  it('picks GB, MB or KB', () => {
+    assert.equal(formatBytes(1.44 * 1024 ** 3), '1.4 GB');
+    assert.equal(formatBytes(350 * 1024 ** 2), '350 MB');
+    assert.equal(formatBytes(12.5 * 1024 ** 2), '12.5 MB');
+    assert.equal(formatBytes(1500), '2 KB');
+  });
+});
+
+describe('songBytes', () => {
+  it('estimates from the length and bitrate', () => {
+    assert.equal(songBytes({ id: 'a', title: 'A', artist: 'X', duration: 240 }, 320), 9600000);
+    assert.equal(songBytes({ id: 'b', title: 'B', artist: 'X', duration: 0 }, 320), 0);
+  });
+});
+
+describe('spaceNeeds', () => {
+  it('adds up folders on the same filesystem, including ones that do not exist yet', () => {
+    const tmp = os.tmpdir();
+    const needs = spaceNeeds([
+      { path: tmp, bytes: 100 },
+      { path: path.join(tmp, 'ytpld-missing', 'nested'), bytes: 50 },
+    ]);
+    assert.equal(needs.length, 1);
+    assert.equal(needs[0]!.path, tmp);
+    assert.equal(needs[0]!.neededBytes, 150);
+    assert.ok(sameFilesystem(tmp, path.join(tmp, 'ytpld-missing')));
+  });
+
+  it('describes a shortfall and a tight fit', () => {
+    assert.equal(
+      shortfallOf({ path: '/music', neededBytes: 3 * 1024 ** 3, freeBytes: 1024 ** 3 }),
+      'about 3.0 GB needed on the disk of /music, but only 1.0 GB is free'
+    );
+    assert.equal(shortfallOf({ path: '/music', neededBytes: 10, freeBytes: 100 }), null);
+    assert.equal(isTight({ path: '/music', neededBytes: 95, freeBytes: 100 }), true);
+    assert.equal(isTight({ path: '/music', neededBytes: 50, freeBytes: 100 }), false);
+    assert.equal(isTight({ path: '/music', neededBytes: 101, freeBytes: 100 }), false);
+  });
+});
@@ -0,0 +1,149 @@
+import fs from 'fs';
+import path from 'path';
+import { getDirectorySize } from '../zipper/zipper.js';
+import type { Song, SpaceNeed } from '../../types/index.js';
+
+// A running download stops when its temp filesystem gets this close to full
+const LOW_SPACE_BYTES = 200 * 1024 * 1024;
+// Estimates are rough, so a run that needs more than this share of the free space gets a warning
+const TIGHT_SPACE_SHARE = 0.9;
+// How often a running download looks at its disk usage
+const WATCH_INTERVAL_MS = 5000;
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+
+/**
+ * Parses a size from the CLI: bytes, or a number with K, M, G or T (binary units, "B"/"iB" optional), e.g. "2G" or "700MB"
+ */
+export function parseSize(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?)(?:i?b)?$/);
+  if (!match || Number(match[1]) <= 0) {
+    throw new Error(`Invalid size: "${value}". Use bytes or a number with K, M, G or T, e.g. 2G or 700M`);
+  }
+  return Math.round(Number(match[1]) * SIZE_UNITS[match[2]!]!);
+}
+
+/**
+ * Formats a byte count for messages, e.g. "1.4 GB", "350 MB" or "12.5 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) {
+    return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  }
+  if (bytes >= 1024 ** 2) {
+    return `${(bytes / 1024 ** 2).toFixed(bytes < 100 * 1024 ** 2 ? 1 : 0)} MB`;
+  }
+  return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+// The folder itself, or its closest parent that exists yet
+function existingAncestor(dir: string): string {
+  let current = path.resolve(dir);
+  while (!fs.existsSync(current) && path.dirname(current) !== current) {
+    current = path.dirname(current);
+  }
+  return current;
+}
+
+/**
+ * Free space in bytes available to this user on the filesystem a folder is (or will be) on
+ */
+export function freeBytes(dir: string): number {
+  const stats = fs.statfsSync(existingAncestor(dir));
+  return stats.bavail * stats.bsize;
+}
+
+/**
+ * Whether two folders are (or will be) on the same filesystem, so moving files between them takes no extra room
+ */
+export function sameFilesystem(a: string, b: string): boolean {
+  return fs.statSync(existingAncestor(a)).dev === fs.statSync(existingAncestor(b)).dev;
+}
+
+/**
+ * Adds up what a run needs per filesystem: folders on the same filesystem share its free space
+ */
+export function spaceNeeds(needs: Array<{ path: string; bytes: number }>): SpaceNeed[] {
+  const byDevice = new Map<number, SpaceNeed>();
+  for (const need of needs) {
+    const device = fs.statSync(existingAncestor(need.path)).dev;
+    const existing = byDevice.get(device);
+    if (existing) {
+      existing.neededBytes += need.bytes;
+    } else {
+      byDevice.set(device, { path: need.path, neededBytes: need.bytes, freeBytes: freeBytes(need.path) });
+    }
+  }
+  return [...byDevice.values()];
+}
+
+/**
+ * Describes a filesystem a run can't fit on, or null when it fits
+ */
+export function shortfallOf(need: SpaceNeed): string | null {
+  return need.neededBytes > need.freeBytes
+    ? `about ${formatBytes(need.neededBytes)} needed on the disk of ${need.path}, but only ${formatBytes(need.freeBytes)} is free`
+    : null;
+}
+
+/**
+ * Whether a run fits but leaves so little room that a low estimate could still fill the disk
+ */
+export function isTight(need: SpaceNeed): boolean {
+  return need.neededBytes <= need.freeBytes && need.neededBytes > need.freeBytes * TIGHT_SPACE_SHARE;
+}
+
+// Estimated size of one song's file at a bitrate; 0 when its length is unknown
+export function songBytes(song: Song, bitrateKbps: number): number {
+  return Math.round((Math.max(0, song.duration) * bitrateKbps * 1000) / 8);
+}
+
+/**
+ * Watches a running download's temp dir and aborts the returned signal when the filesystem gets
+ * nearly full or the run's files outgrow a size cap. The signal also follows the run's own signal.
+ * Call dispose when the downloads are over.
+ */
+export function watchDiskSpace(
+  dir: string,
+  options: {
+    // Size cap in bytes for the files counted by isOutput
+    maxBytes?: number | undefined;
+    isOutput?: ((filePath: string) => boolean) | undefined;
+    signal?: AbortSignal | undefined;
+    onStop: (reason: string, usedBytes: number, freeBytes: number) => void;
+  }
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  if (options.signal?.aborted) {
+    controller.abort();
+  }
+
+  const check = () => {
+    if (controller.signal.aborted) {
+      return;
+    }
+    const free = freeBytes(dir);
+    const used = getDirectorySize(dir, options.isOutput);
+    if (free < LOW_SPACE_BYTES) {
+      options.onStop(`only ${formatBytes(free)} left on the disk of ${dir}`, used, free);
+    } else if (options.maxBytes !== undefined && used > options.maxBytes) {
+      options.onStop(`the downloaded tracks reached ${formatBytes(used)}, over the ${formatBytes(options.maxBytes)} size cap`, used, free);
+    } else {
+      return;
+    }
+    controller.abort();
+  };
+
+  const timer = setInterval(check, WATCH_INTERVAL_MS);
+  timer.unref();
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearInterval(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import type { ManifestTrack, Playlist, PlaylistManifest, Song } from '../../types/index.js';
+
+export const MANIFEST_FILENAME = '.ytpld-manifest.json';
+const MANIFEST_VERSION = 1;
+
+export interface SyncPlan {
+  // Songs on the playlist that are not downloaded yet (or whose file went missing)
+  toDownload: Song[];
+  // Tracks in the manifest that are no longer on the playlist
+  removed: ManifestTrack[];
+  // Tracks already downloaded and still on the playlist
+  unchanged: ManifestTrack[];
+}
+
+/**
+ * Creates an empty manifest for a playlist
+ */
+export function createManifest(playlistId: string, playlist: Playlist): PlaylistManifest {
+  return {
+    version: MANIFEST_VERSION,
+    playlistId,
+    playlistName: playlist.name,
+    updatedAt: new Date().toISOString(),
+    tracks: [],
+  };
+}
+
+/**
+ * Reads the manifest stored in a playlist folder, or null if there is none
+ */
+export function readManifest(folder: string): PlaylistManifest | null {
+  const manifestPath = path.join(folder, MANIFEST_FILENAME);
+  if (!fs.existsSync(manifestPath)) {
+    return null;
+  }
+
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as PlaylistManifest;
+    if (manifest.version !== MANIFEST_VERSION || !Array.isArray(manifest.tracks)) {
+      throw new Error(`unsupported manifest version ${manifest.version}`);
+    }
+    return manifest;
+  } catch (error) {
+    throw new Error(`Invalid manifest at ${manifestPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Writes a manifest atomically so an interrupted run never leaves a truncated file
+ */
+export function writeManifest(folder: string, manifest: PlaylistManifest): void {
+  const manifestPath = path.join(folder, MANIFEST_FILENAME);
+  const tempPath = `${manifestPath}.tmp`;
+
+  manifest.updatedAt = new Date().toISOString();
+  fs.mkdirSync(folder, { recursive: true });
+  fs.writeFileSync(tempPath, JSON.stringify(manifest, null, 2));
+  fs.renameSync(tempPath, manifestPath);
+}
+
+/**
+ * Finds the folder holding a playlist's manifest among the output directory's subfolders.
+ * Lets a sync follow a playlist whose name changed since the last run.
+ */
+export function findManifestFolder(outputDir: string, playlistId: string): string | null {
+  if (!fs.existsSync(outputDir)) {
+    return null;
+  }
+
+  for (const entry of fs.readdirSync(outputDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) {
+      continue;
+    }
+
+    const folder = path.join(outputDir, entry.name);
+    const manifestPath = path.join(folder, MANIFEST_FILENAME);
+    if (!fs.existsSync(manifestPath)) {
+      continue;
+    }
+
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as PlaylistManifest;
+      if (manifest.playlistId === playlistId) {
+        return folder;
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compares the current playlist with the manifest to work out what a sync has to do.
+ * A video that was split counts as downloaded while every track cut from it is still there.
+ */
+export function planSync(manifest: PlaylistManifest, playlist: Playlist, folder: string): SyncPlan {
+  const tracksBySong = new Map<string, ManifestTrack[]>();
+  for (const track of manifest.tracks) {
+    const songId = track.sourceId ?? track.id;
+    tracksBySong.set(songId, [...(tracksBySong.get(songId) ?? []), track]);
+  }
+  const playlistIds = new Set(playlist.songs.map((song) => song.id));
+
+  const toDownload: Song[] = [];
+  const unchanged: ManifestTrack[] = [];
+
+  for (const song of playlist.songs) {
+    const tracks = tracksBySong.get(song.id) ?? [];
+    if (tracks.length > 0 && tracks.every((track) => fs.existsSync(path.join(folder, track.file)))) {
+      unchanged.push(...tracks);
+    } else {
+      toDownload.push(song);
+    }
+  }
+
+  const removed = manifest.tracks.filter((track) => !playlistIds.has(track.sourceId ?? track.id));
+
+  return { toDownload, removed, unchanged };
+}
+
+/**
+ * Adds or replaces a track entry in the manifest
+ */
+export function recordTrack(manifest: PlaylistManifest, song: Song, file: string): void {
+  const track: ManifestTrack = {
+    id: song.id,
+    title: song.title,
+    artist: song.artist,
+    file,
+    ...(song.sourceId ? { sourceId: song.sourceId } : {}),
+    ...(song.duration > 0 ? { duration: song.duration } : {}),
+    downloadedAt: new Date().toISOString(),
+  };
+
+  const index = manifest.tracks.findIndex((existing) => existing.id === song.id);
+  if (index >= 0) {
+    manifest.tracks[index] = track;
+  } else {
+    manifest.tracks.push(track);
+  }
+}
+
+/**
+ * Drops a track entry from the manifest
+ */
+export function forgetTrack(manifest: PlaylistManifest, trackId: string): void {
+  manifest.tracks = manifest.tracks.filter((track) => track.id !== trackId);
+}
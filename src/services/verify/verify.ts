@@ -0,0 +1,147 @@
+import { ffmpeg, probeAudio, type AudioStreamInfo } from '../../utils/ffmpeg.js';
+
+// What a file is checked against
+export interface VerifyExpectations {
+  // Length in seconds the file should decode to; missing or 0 skips the check
+  duration?: number | undefined;
+  // Check that the title and artist tags are there
+  tags?: boolean | undefined;
+}
+
+// Decoded length may differ from YouTube's by encoder padding and rounding
+const DURATION_TOLERANCE_SECONDS = 3;
+const DURATION_TOLERANCE_RATIO = 0.02;
+// Silence as silencedetect finds it: quieter than this for at least this many seconds
+const SILENCE_NOISE = '-60dB';
+const SILENCE_MIN_SECONDS = 2;
+// A file this much silence is broken rather than quiet; very short files aren't judged
+const SILENT_SHARE = 0.9;
+const SILENCE_CHECK_MIN_SECONDS = 10;
+const REQUIRED_TAGS = ['title', 'artist'];
+
+interface DecodeReport {
+  // Length of the decoded audio in seconds, when FFmpeg reported it
+  duration: number | null;
+  // Seconds of silence found
+  silence: number;
+  // Why decoding stopped, when it failed
+  error?: string | undefined;
+}
+
+function formatSeconds(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+// FFmpeg's stats lines end with the position reached, e.g. "time=00:03:20.04"
+function lastTimemark(stderr: string): number | null {
+  const marks = [...stderr.matchAll(/time=\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/g)];
+  const last = marks[marks.length - 1];
+  return last ? Number(last[1]) * 3600 + Number(last[2]) * 60 + Number(last[3]) : null;
+}
+
+// Adds up silencedetect's findings, counting silence that runs to the end of the file
+function silenceSeconds(stderr: string, duration: number | null): number {
+  const total = [...stderr.matchAll(/silence_duration: ([\d.]+)/g)].reduce((sum, match) => sum + Number(match[1]), 0);
+  const starts = [...stderr.matchAll(/silence_start: (-?[\d.]+)/g)];
+  const ends = stderr.match(/silence_end:/g)?.length ?? 0;
+  const openStart = starts.length > ends ? Number(starts[starts.length - 1]![1]) : null;
+  return total + (openStart !== null && duration !== null ? Math.max(0, duration - openStart) : 0);
+}
+
+/**
+ * Decodes a whole file without writing anything, stopping at the first decoding error
+ */
+function decodeAudio(filePath: string, signal?: AbortSignal): Promise<DecodeReport> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Cancelled'));
+      return;
+    }
+
+    const command = ffmpeg(filePath)
+      .inputOptions('-xerror')
+      .noVideo()
+      .audioFilters(`silencedetect=noise=${SILENCE_NOISE}:d=${SILENCE_MIN_SECONDS}`)
+      .format('null');
+    const onAbort = () => command.kill('SIGKILL');
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    command
+      .on('end', (_stdout: string | null, stderr: string | null) => {
+        signal?.removeEventListener('abort', onAbort);
+        const duration = lastTimemark(stderr ?? '');
+        resolve({ duration, silence: silenceSeconds(stderr ?? '', duration) });
+      })
+      .on('error', (err: Error) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (signal?.aborted) {
+          reject(new Error('Cancelled'));
+          return;
+        }
+        resolve({ duration: null, silence: 0, error: err.message.split('\n').filter(Boolean).pop() ?? err.message });
+      })
+      .save('-');
+  });
+}
+
+/**
+ * Tags out of title and artist that a file lacks
+ */
+export function missingTags(info: AudioStreamInfo): string[] {
+  return REQUIRED_TAGS.filter((tag) => !info.tags[tag]?.trim());
+}
+
+/**
+ * Checks a finished audio file with FFprobe and a full decode: it must have an audio stream,
+ * decode without errors, be about as long as expected and not be mostly silence. Resolves with
+ * the problems found, so an empty list means the file is fine.
+ */
+export async function verifyAudioFile(
+  filePath: string,
+  expectations: VerifyExpectations = {},
+  signal?: AbortSignal
+): Promise<string[]> {
+  let info: AudioStreamInfo;
+  try {
+    info = await probeAudio(filePath);
+  } catch (error) {
+    return [`Unreadable: ${error instanceof Error ? error.message : 'Unknown error'}`];
+  }
+
+  const problems: string[] = [];
+  const decoded = await decodeAudio(filePath, signal);
+  if (decoded.error) {
+    problems.push(`Does not decode cleanly: ${decoded.error}`);
+  }
+
+  const duration = decoded.duration ?? info.duration ?? 0;
+  const expected = expectations.duration ?? 0;
+  if (expected > 0 && Math.abs(duration - expected) > Math.max(DURATION_TOLERANCE_SECONDS, expected * DURATION_TOLERANCE_RATIO)) {
+    problems.push(`Decodes to ${formatSeconds(duration)} instead of ${formatSeconds(expected)}`);
+  }
+
+  if (!decoded.error && duration >= SILENCE_CHECK_MIN_SECONDS && decoded.silence / duration >= SILENT_SHARE) {
+    problems.push(`Mostly silence (${Math.round((decoded.silence / duration) * 100)}%)`);
+  }
+
+  if (expectations.tags) {
+    const missing = missingTags(info);
+    if (missing.length > 0) {
+      problems.push(`Missing tags: ${missing.join(', ')}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Lists the tags a file is missing, or the reason it can't be read
+ */
+export async function checkTags(filePath: string): Promise<string[]> {
+  try {
+    return missingTags(await probeAudio(filePath));
+  } catch (error) {
+    return [`unreadable (${error instanceof Error ? error.message : 'Unknown error'})`];
+  }
+}
@@ -1,30 +1,146 @@
-import { execSync } from 'child_process';
-import { extractPlaylistId, isValidYouTubeUrl } from '../../utils/validator.js';
-import type { Playlist, Song } from '../../types/index.js';
+import { silentLogger, type Logger } from '../../utils/logger.js';
+import { ProcessError, runYtDlp } from '../../utils/process.js';
+import { isValidYouTubeUrl, parseYouTubeUrl } from '../../utils/validator.js';
+import { cleanChannelName, DEFAULT_TITLE_RULES, parseVideoTitle, type TitleParserRules } from '../metadata/titleParser.js';
+import type { Chapter, Playlist, Song, YouTubeTarget } from '../../types/index.js';
+
+// Reads a year from yt-dlp's release_year or a YYYYMMDD release_date
+function parseReleaseYear(e: any): number | undefined {
+  if (typeof e.release_year === 'number') {
+    return e.release_year;
+  }
+  const match = typeof e.release_date === 'string' ? e.release_date.match(/^(\d{4})/) : null;
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+// Reads yt-dlp's chapters; null means the video has none, a missing field that the listing didn't include them
+function parseChapters(e: any): Chapter[] | undefined {
+  if (!Array.isArray(e.chapters)) {
+    return e.chapters === null ? [] : undefined;
+  }
+  return e.chapters
+    .filter((c: any) => typeof c?.start_time === 'number')
+    .map((c: any) => ({
+      title: c.title || '',
+      start: c.start_time,
+      end: typeof c.end_time === 'number' ? c.end_time : undefined,
+    }));
+}
+
+/**
+ * Maps a yt-dlp entry to a Song; position is the 1-based playlist index used as a fallback track number.
+ * Plain uploads without YouTube Music metadata get artist and title parsed from the video title.
+ */
+function mapEntryToSong(e: any, position: number, titleRules: TitleParserRules | null): Song {
+  const thumb = Array.isArray(e.thumbnails) && e.thumbnails.length
+    ? e.thumbnails[e.thumbnails.length - 1]?.url
+    : (e.thumbnail || undefined);
+
+  const duration = typeof e.duration === 'number'
+    ? e.duration
+    : (typeof e.duration_seconds === 'number' ? e.duration_seconds : 0);
+
+  // YouTube Music lists every credited artist; plain uploads only have the channel
+  const artists: string[] = Array.isArray(e.artists) ? e.artists.filter(Boolean) : [];
+  let artist = artists.length > 0
+    ? artists.join(', ')
+    : (e.artist || e.channel || e.uploader || 'Unknown Artist');
+  let title = e.track || e.title || 'Unknown';
+
+  const structured = artists.length > 0 || !!e.artist || !!e.track;
+  if (!structured && titleRules && e.title) {
+    ({ artist, title } = parseVideoTitle(e.title, e.channel || e.uploader || '', titleRules));
+  }
+
+  const trackNumber = typeof e.track_number === 'number'
+    ? e.track_number
+    : (typeof e.playlist_index === 'number' ? e.playlist_index : position);
+
+  return {
+    id: e.id || '',
+    // `track` is the clean song title on YouTube Music
+    title,
+    artist,
+    duration,
+    coverUrl: thumb || undefined,
+    album: e.album || undefined,
+    albumArtist: e.album_artist || (e.album ? artists[0] ?? e.artist : undefined) || undefined,
+    trackNumber,
+    year: parseReleaseYear(e),
+    genre: e.genre || (Array.isArray(e.genres) ? e.genres[0] : undefined) || undefined,
+    chapters: parseChapters(e),
+  };
+}
 
 /**
- * Validates URL and extracts playlist ID
+ * Validates URL and works out whether it points at a playlist, video, album or channel
  */
-export async function validateAndExtractId(url: string): Promise<string> {
+export async function validateAndResolveTarget(url: string, preferVideo = false): Promise<YouTubeTarget> {
   if (!isValidYouTubeUrl(url)) {
     throw new Error(`Invalid YouTube URL: ${url}`);
   }
 
-  const playlistId = extractPlaylistId(url);
-  if (!playlistId) {
-    throw new Error(`Could not extract playlist ID from URL: ${url}`);
+  const target = parseYouTubeUrl(url, preferVideo);
+  if (!target) {
+    throw new Error(`Could not extract a playlist, video, album or channel from URL: ${url}`);
   }
 
-  return playlistId;
+  return target;
+}
+
+/**
+ * Resolves any supported target into a Playlist
+ */
+export async function fetchTargetMetadata(
+  target: YouTubeTarget,
+  cookiesFile?: string,
+  titleRules: TitleParserRules | null = DEFAULT_TITLE_RULES,
+  log: Logger = silentLogger
+): Promise<Playlist> {
+  switch (target.kind) {
+    case 'playlist':
+      return fetchPlaylistMetadata(target.id, cookiesFile, titleRules, log);
+    case 'video': {
+      // A single video becomes a one-song playlist
+      const song = await fetchSongDetails(target.id, cookiesFile, titleRules);
+      return {
+        name: song.title,
+        uploader: song.artist,
+        songs: [song],
+        totalCount: 1,
+      };
+    }
+    case 'album':
+      // yt-dlp follows album browse IDs to the album's playlist
+      return fetchListMetadata(`https://music.youtube.com/browse/${target.id}`, cookiesFile, titleRules, log);
+    case 'channel':
+      return fetchListMetadata(`https://www.youtube.com/${target.path}/${target.tab}`, cookiesFile, titleRules, log);
+  }
 }
 
 /**
  * Fetches playlist metadata using yt-dlp
  */
-export async function fetchPlaylistMetadata(playlistId: string, cookiesFile?: string): Promise<Playlist> {
+export async function fetchPlaylistMetadata(
+  playlistId: string,
+  cookiesFile?: string,
+  titleRules: TitleParserRules | null = DEFAULT_TITLE_RULES,
+  log: Logger = silentLogger
+): Promise<Playlist> {
+  return fetchListMetadata(`https://www.youtube.com/playlist?list=${playlistId}`, cookiesFile, titleRules, log);
+}
+
+/**
+ * Fetches the metadata of any yt-dlp list URL (playlist, album or channel tab)
+ */
+async function fetchListMetadata(
+  playlistUrl: string,
+  cookiesFile: string | undefined,
+  titleRules: TitleParserRules | null,
+  log: Logger
+): Promise<Playlist> {
   try {
-    const playlistUrl = `https://www.youtube.com/playlist?list=${playlistId}`;
-    const cookiesArg = cookiesFile ? `--cookies "${cookiesFile}"` : '';
+    const cookiesArgs = cookiesFile ? ['--cookies', cookiesFile] : [];
     
     let data: any;
     let playlistTitle = 'Unknown Playlist';
@@ -32,33 +148,25 @@ export async function fetchPlaylistMetadata(playlistId: string, cookiesFile?: st
     
     // Try -J first for complete metadata
     try {
-      const command = `py -m yt_dlp -J ${cookiesArg} --no-warnings "${playlistUrl}"`;
-      const jsonText = execSync(command, {
-        encoding: 'utf-8',
-        maxBuffer: 200 * 1024 * 1024,
+      const { stdout } = await runYtDlp(['-J', ...cookiesArgs, '--no-warnings', playlistUrl], {
         timeout: 120000, // 2 minute timeout
-        stdio: ['pipe', 'pipe', 'pipe'],
       });
-      data = JSON.parse(jsonText);
-      playlistTitle = data.title || data.playlist || 'Unknown Playlist';
+      data = JSON.parse(stdout);
+      // YouTube Music album pages are titled "Album - <name>"
+      playlistTitle = (data.title || data.playlist || 'Unknown Playlist').replace(/^Album - /, '');
       uploader = data.uploader || data.channel || undefined;
     } catch (error) {
       // Fallback to flat-playlist for large/problematic playlists
-      console.log('  ⚠️  Large playlist detected, using alternative fetch method...');
-      
-      const flatCommand = `py -m yt_dlp --dump-json --flat-playlist ${cookiesArg} --no-warnings "${playlistUrl}"`;
+      log.warn('Large playlist detected, using alternative fetch method...');
       
       let output: string;
       try {
-        output = execSync(flatCommand, {
-          encoding: 'utf-8',
-          maxBuffer: 200 * 1024 * 1024,
+        ({ stdout: output } = await runYtDlp(['--dump-json', '--flat-playlist', ...cookiesArgs, '--no-warnings', playlistUrl], {
           timeout: 180000, // 3 minute timeout for large playlists
-          stdio: ['pipe', 'pipe', 'pipe'],
-        });
+        }));
       } catch (flatError: any) {
         // Capture stderr for better error messages
-        const stderr = flatError.stderr?.toString() || '';
+        const stderr = flatError instanceof ProcessError ? flatError.stderr : '';
         if (stderr.includes('Private video') || stderr.includes('This video is private')) {
           throw new Error('Playlist contains private videos or requires authentication. Try using --cookies option.');
         } else if (stderr.includes('This playlist does not exist')) {
@@ -100,27 +208,17 @@ export async function fetchPlaylistMetadata(playlistId: string, cookiesFile?: st
     }
 
     // Map entries to Song[]; yt-dlp sometimes provides rich fields, sometimes flat
-    const songs: Song[] = entries
-      .filter((e) => !!e)
-      .map((e) => {
-        const thumb = Array.isArray(e.thumbnails) && e.thumbnails.length
-          ? e.thumbnails[e.thumbnails.length - 1]?.url
-          : (e.thumbnail || undefined);
-
-        const duration = typeof e.duration === 'number'
-          ? e.duration
-          : (typeof e.duration_seconds === 'number' ? e.duration_seconds : 0);
-
-        const artist = e.artist || e.channel || e.uploader || 'Unknown Artist';
-
-        return {
-          id: e.id || '',
-          title: e.title || 'Unknown',
-          artist,
-          duration,
-          coverUrl: thumb || undefined,
-        } as Song;
-      });
+    const listed = entries.filter((e) => !!e);
+    const songs: Song[] = listed.map((e, index) => mapEntryToSong(e, index + 1, titleRules));
+
+    // The playlist length is the track total for songs numbered by their playlist position, and for
+    // album numbers only when the playlist is that one album; in a mix "7/50" would be wrong
+    const singleAlbum = songs.every((song) => song.album && song.album === songs[0]?.album);
+    songs.forEach((song, index) => {
+      if (typeof listed[index].track_number !== 'number' || singleAlbum) {
+        song.trackTotal = songs.length;
+      }
+    });
 
     const result: Playlist = {
       name: playlistTitle,
@@ -129,7 +227,7 @@ export async function fetchPlaylistMetadata(playlistId: string, cookiesFile?: st
     };
     
     if (uploader) {
-      result.uploader = uploader;
+      result.uploader = titleRules ? cleanChannelName(uploader, titleRules) : uploader;
     }
     
     return result;
@@ -139,27 +237,28 @@ export async function fetchPlaylistMetadata(playlistId: string, cookiesFile?: st
 }
 
 /**
- * Gets detailed info for a single video
+ * Gets detailed info for a single video; signal cancels the lookup
  */
-export async function fetchSongDetails(videoId: string, cookiesFile?: string): Promise<Song> {
+export async function fetchSongDetails(
+  videoId: string,
+  cookiesFile?: string,
+  titleRules: TitleParserRules | null = DEFAULT_TITLE_RULES,
+  signal?: AbortSignal
+): Promise<Song> {
   try {
     const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
     
-    const cookiesArg = cookiesFile ? `--cookies "${cookiesFile}"` : '';
-    const command = `py -m yt_dlp ${cookiesArg} --dump-json "${videoUrl}"`;
-    const output = execSync(command, {
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'ignore'], // Suppress stderr
+    const cookiesArgs = cookiesFile ? ['--cookies', cookiesFile] : [];
+    const { stdout } = await runYtDlp([...cookiesArgs, '--dump-json', videoUrl], {
+      timeout: 60000, // 1 minute timeout
+      signal,
     });
 
-    const data = JSON.parse(output);
+    const data = JSON.parse(stdout);
 
     return {
+      ...mapEntryToSong(data, 1, titleRules),
       id: videoId,
-      title: data.title || 'Unknown',
-      artist: data.channel || 'Unknown Artist',
-      duration: data.duration || 0,
-      coverUrl: data.thumbnail || undefined,
       downloadUrl: videoId,
     };
   } catch (error) {
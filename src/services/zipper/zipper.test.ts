@@ -0,0 +1,176 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+import archiver from 'archiver';
+import { createArchiveWriter, extractTar, openZipReader } from './zipper.js';
+import { createLogger } from '../../utils/logger.js';
+import type { ArchiveFormat } from '../../types/index.js';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ytpld-zipper-'));
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+let folders = 0;
+// A fresh folder under the test root
+function folder(name: string): string {
+  const dir = path.join(root, `${++folders}-${name}`);
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+// Writes files of random bytes, given by name and size, and returns the folder
+function sourceFolder(files: Record<string, number>): string {
+  const dir = folder('source');
+  for (const [name, size] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), Buffer.from(Array.from({ length: size }, () => Math.floor(Math.random() * 256))));
+  }
+  return dir;
+}
+
+// Reads every file of every volume back, keyed by name
+async function readBack(volumes: string[], format: ArchiveFormat): Promise<Map<string, Buffer>> {
+  const files = new Map<string, Buffer>();
+  for (const volume of volumes) {
+    const dir = folder('extracted');
+    if (format === 'zip') {
+      const reader = await openZipReader(volume);
+      try {
+        for (const name of reader.files) {
+          await reader.extract(name, path.join(dir, name));
+        }
+      } finally {
+        reader.close();
+      }
+    } else {
+      await extractTar(volume, dir);
+    }
+
+    const walk = (prefix: string): void => {
+      for (const entry of fs.readdirSync(path.join(dir, prefix), { withFileTypes: true })) {
+        const name = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          walk(name);
+        } else {
+          assert.ok(!files.has(name), `${name} is in more than one volume`);
+          files.set(name, fs.readFileSync(path.join(dir, name)));
+        }
+      }
+    };
+    walk('');
+  }
+  return files;
+}
+
+function assertSameFiles(actual: Map<string, Buffer>, sourceDir: string, names: string[]): void {
+  assert.deepEqual([...actual.keys()].sort(), [...names].sort());
+  for (const name of names) {
+    assert.ok(actual.get(name)!.equals(fs.readFileSync(path.join(sourceDir, name))), `${name} differs`);
+  }
+}
+
+// Longer than the 100 bytes of a tar header name and with non-ASCII characters
+const LONG_NAME = `Artist — Album/${'Ünïcödé Sóng Tîtle '.repeat(8).trim()}.mp3`;
+
+describe('createArchiveWriter', () => {
+  for (const format of ['zip', 'tar', 'tar.gz'] as const) {
+    it(`round-trips a ${format} archive with folders and long names`, async () => {
+      const files = { '01 - First.mp3': 3000, 'cover.jpg': 500, [LONG_NAME]: 2000, 'Playlist.m3u8': 100 };
+      const sourceDir = sourceFolder({ ...files, '.run-state.json': 10 });
+      const writer = createArchiveWriter({ outputDir: folder('out'), name: 'Album', format });
+      writer.addDirectory(sourceDir);
+      const result = await writer.finish();
+
+      assert.equal(path.basename(result.archivePath), `Album.${format}`);
+      assert.deepEqual(result.volumes, [result.archivePath]);
+      assert.equal(result.fileCount, 4);
+      assertSameFiles(await readBack(result.volumes, format), sourceDir, Object.keys(files));
+    });
+
+    it(`splits a ${format} archive into volumes that extract on their own`, async () => {
+      const names = ['a.mp3', 'b.mp3', 'c.mp3', 'd.mp3', 'big.flac'];
+      const sourceDir = sourceFolder({ 'a.mp3': 30000, 'b.mp3': 30000, 'c.mp3': 30000, 'd.mp3': 30000, 'big.flac': 120000 });
+      const outputDir = folder('out');
+      // Volumes of an earlier, bigger archive of the same name
+      for (let number = 1; number <= 8; number++) {
+        fs.writeFileSync(path.join(outputDir, `Album.part${number}.${format}`), 'old');
+      }
+
+      const warnings: string[] = [];
+      const writer = createArchiveWriter({
+        outputDir,
+        name: 'Album',
+        format,
+        splitSize: 90000,
+        log: createLogger((_level, message) => warnings.push(message)),
+      });
+      writer.addDirectory(sourceDir);
+      const result = await writer.finish();
+
+      assert.ok(result.volumes.length >= 3, `only ${result.volumes.length} volumes`);
+      assert.deepEqual(result.volumes.map((volume) => path.basename(volume)), result.volumes.map((_, index) => `Album.part${index + 1}.${format}`));
+      // Only the volume of the oversized file goes past the split size
+      assert.equal(result.volumes.filter((volume) => fs.statSync(volume).size > 90000).length, 1);
+      assert.deepEqual(warnings, ['big.flac is bigger than the split size on its own and gets a volume of its own']);
+      assert.deepEqual(fs.readdirSync(outputDir).sort(), result.volumes.map((volume) => path.basename(volume)).sort());
+      assertSameFiles(await readBack(result.volumes, format), sourceDir, names);
+    });
+  }
+
+  it('skips names added twice', async () => {
+    const sourceDir = sourceFolder({ 'track.mp3': 100, 'Playlist.m3u8': 10 });
+    const writer = createArchiveWriter({ outputDir: folder('out'), name: 'Album' });
+    writer.add(path.join(sourceDir, 'track.mp3'), 'track.mp3');
+    writer.addDirectory(sourceDir);
+    const result = await writer.finish();
+    assert.equal(result.fileCount, 2);
+  });
+
+  it('leaves nothing behind when aborted', async () => {
+    const sourceDir = sourceFolder({ 'track.mp3': 100000 });
+    const outputDir = folder('out');
+    const writer = createArchiveWriter({ outputDir, name: 'Album', format: 'tar.gz' });
+    writer.addDirectory(sourceDir);
+    writer.abort();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.deepEqual(fs.readdirSync(outputDir), []);
+  });
+});
+
+describe('openZipReader', () => {
+  it('reads ZIP64 archives', async () => {
+    const sourceDir = sourceFolder({ 'track.mp3': 5000, 'nested/cover.jpg': 300 });
+    const zipPath = path.join(folder('out'), 'zip64.zip');
+    const archive = archiver('zip', { forceZip64: true });
+    const written = new Promise((resolve, reject) => {
+      const output = fs.createWriteStream(zipPath);
+      output.on('close', resolve);
+      archive.on('error', reject);
+      archive.pipe(output);
+    });
+    archive.directory(sourceDir, false);
+    await archive.finalize();
+    await written;
+
+    assertSameFiles(await readBack([zipPath], 'zip'), sourceDir, ['track.mp3', 'nested/cover.jpg']);
+  });
+
+  it('rejects files that are not ZIP archives', async () => {
+    const notZip = path.join(folder('out'), 'broken.zip');
+    fs.writeFileSync(notZip, 'not a zip file at all');
+    await assert.rejects(openZipReader(notZip));
+  });
+});
+
+describe('extractTar', () => {
+  it('fails on a truncated archive', async () => {
+    const sourceDir = sourceFolder({ 'track.mp3': 20000 });
+    const writer = createArchiveWriter({ outputDir: folder('out'), name: 'Album', format: 'tar' });
+    writer.addDirectory(sourceDir);
+    const { archivePath } = await writer.finish();
+    fs.truncateSync(archivePath, 10000);
+
+    await assert.rejects(extractTar(archivePath, folder('extracted')));
+  });
+});
@@ -1,78 +1,205 @@
 import fs from 'fs';
 import path from 'path';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import archiver from 'archiver';
-import { logger } from '../../utils/logger.js';
+import * as tar from 'tar';
+import yauzl from 'yauzl';
+import { silentLogger, type Logger } from '../../utils/logger.js';
 import { sanitizeFilename } from '../../utils/validator.js';
+import type { ArchiveFormat } from '../../types/index.js';
 
-export interface ZipOptions {
-  sourceDir: string;
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar', 'tar.gz'];
+
+export interface ArchiveOptions {
   outputDir: string;
-  zipName: string;
+  // File name without extension
+  name: string;
+  format?: ArchiveFormat | undefined;
+  // Start a new volume rather than let one grow past this many bytes
+  splitSize?: number | undefined;
+  // Receives a warning for files bigger than the split size (default: dropped)
+  log?: Logger | undefined;
 }
 
-export interface ZipResult {
-  zipPath: string;
+export interface ArchiveResult {
+  // The archive, or its first volume when it was split
+  archivePath: string;
+  volumes: string[];
   totalSize: number;
   fileCount: number;
 }
 
+// Builds an archive a file at a time, so files can be added while a run is still downloading
+export interface ArchiveWriter {
+  // Queues a file under a path inside the archive; a path already added is skipped
+  add(filePath: string, name: string): void;
+  // Adds every file of a folder not added yet, leaving out hidden files such as run state
+  addDirectory(dir: string): void;
+  // Writes the end of the archive and moves its volumes into place
+  finish(): Promise<ArchiveResult>;
+  // Stops writing and deletes the unfinished volumes
+  abort(): void;
+}
+
+interface Volume {
+  archive: archiver.Archiver;
+  output: fs.WriteStream;
+  partialPath: string;
+  // Settles when the volume is fully written
+  done: Promise<void>;
+  // Estimated size so far, to know when to start the next volume
+  bytes: number;
+  entries: number;
+}
+
+// Room for the end of the archive (ZIP central directory end, tar end blocks, gzip trailer)
+const VOLUME_OVERHEAD_BYTES = 16 * 1024;
+// Audio and artwork are compressed already, so deflating them again only costs CPU
+const STORED_FILE = /\.(mp3|opus|m4a|flac|ogg|jpe?g|png|webp)$/i;
+
 /**
- * Creates a ZIP archive from a directory
+ * Size an entry adds to a volume: its data plus headers (ZIP local and central records, or tar
+ * header blocks and padding). Audio hardly shrinks under gzip, so tar.gz is counted like tar.
  */
-export async function createZip(options: ZipOptions): Promise<ZipResult> {
-  const { sourceDir, outputDir, zipName } = options;
-  
-  const sanitizedName = sanitizeFilename(zipName);
-  const zipPath = path.join(outputDir, `${sanitizedName}.zip`);
-
-  // Ensure output directory exists
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
-  }
+function entryBytes(format: ArchiveFormat, name: string, size: number): number {
+  const nameBytes = Buffer.byteLength(name);
+  return format === 'zip'
+    ? size + 2 * nameBytes + 200
+    : Math.ceil(size / 512) * 512 + 2048 + Math.ceil(size / 1000);
+}
 
-  return new Promise((resolve, reject) => {
-    const output = fs.createWriteStream(zipPath);
-    const archive = archiver('zip', {
-      zlib: { level: 9 }, // Maximum compression
+function listFiles(dir: string, prefix = ''): string[] {
+  return fs.readdirSync(path.join(dir, prefix), { withFileTypes: true })
+    .filter((entry) => !entry.name.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((entry) => {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+      return entry.isDirectory() ? listFiles(dir, relative) : [relative];
     });
+}
 
-    let fileCount = 0;
-    let totalSize = 0;
-
-    output.on('close', () => {
-      totalSize = archive.pointer();
-      const sizeMB = (totalSize / (1024 * 1024)).toFixed(2);
-      logger.success(`ZIP created: ${zipPath} (${sizeMB} MB, ${fileCount} files)`);
-      
-      resolve({
-        zipPath,
-        totalSize,
-        fileCount,
-      });
-    });
+/**
+ * Starts an archive in outputDir. ZIP entries of audio and artwork are stored rather than
+ * deflated. With a split size the archive is cut into volumes named "<name>.part1.zip",
+ * "<name>.part2.zip", ... that each extract on their own; a single file bigger than the split
+ * size gets a volume of its own. Volumes are written under temporary names so an interrupted
+ * run never leaves a truncated archive behind.
+ */
+export function createArchiveWriter(options: ArchiveOptions): ArchiveWriter {
+  const format = options.format ?? 'zip';
+  const log = options.log ?? silentLogger;
+  const baseName = sanitizeFilename(options.name);
+  const archivePath = path.join(options.outputDir, `${baseName}.${format}`);
+  const partPath = (number: number) => path.join(options.outputDir, `${baseName}.part${number}.${format}`);
 
-    archive.on('error', (err: Error) => {
-      logger.error(`ZIP creation failed: ${err.message}`);
-      reject(err);
-    });
+  fs.mkdirSync(options.outputDir, { recursive: true });
 
-    archive.on('entry', () => {
-      fileCount++;
-    });
+  const volumes: Volume[] = [];
+  const added = new Set<string>();
+  let current: Volume | null = null;
 
+  const openVolume = (): Volume => {
+    const partialPath = `${partPath(volumes.length + 1)}.part`;
+    const output = fs.createWriteStream(partialPath);
+    const archive = format === 'zip' ? archiver('zip', { zlib: { level: 9 } }) : archiver('tar', { gzip: format === 'tar.gz' });
+    const done = new Promise<void>((resolve, reject) => {
+      output.on('close', resolve);
+      output.on('error', reject);
+      archive.on('error', reject);
+    });
+    // Errors are picked up by finish; until then nothing waits on the volume
+    done.catch(() => {});
     archive.pipe(output);
 
-    // Add all files from source directory
-    archive.directory(sourceDir, false);
+    const volume: Volume = { archive, output, partialPath, done, bytes: VOLUME_OVERHEAD_BYTES, entries: 0 };
+    volumes.push(volume);
+    return volume;
+  };
 
-    archive.finalize();
-  });
+  // Write errors reject the volume's done promise, which finish reports
+  const closeVolume = (volume: Volume) => {
+    volume.archive.finalize().catch(() => {});
+  };
+
+  // A stream destroyed before its file is open still creates it, so the file goes once the stream has closed
+  const removePartials = () => {
+    for (const volume of volumes) {
+      const remove = () => fs.rmSync(volume.partialPath, { force: true });
+      if (volume.output.closed) {
+        remove();
+      } else {
+        volume.output.once('close', remove);
+        volume.output.destroy();
+      }
+    }
+  };
+
+  const add = (filePath: string, name: string) => {
+    if (added.has(name)) {
+      return;
+    }
+    added.add(name);
+
+    const bytes = entryBytes(format, name, fs.statSync(filePath).size);
+    if (current && options.splitSize && current.entries > 0 && current.bytes + bytes > options.splitSize) {
+      closeVolume(current);
+      current = null;
+    }
+    current ??= openVolume();
+    if (options.splitSize && bytes + VOLUME_OVERHEAD_BYTES > options.splitSize) {
+      log.warn(`${name} is bigger than the split size on its own and gets a volume of its own`);
+    }
+
+    const entry: archiver.ZipEntryData = format === 'zip' ? { name, store: STORED_FILE.test(name) } : { name };
+    current.archive.file(filePath, entry);
+    current.bytes += bytes;
+    current.entries++;
+  };
+
+  return {
+    add,
+    addDirectory: (dir) => {
+      for (const file of listFiles(dir)) {
+        add(path.join(dir, file), file);
+      }
+    },
+    finish: async () => {
+      closeVolume(current ?? openVolume());
+      current = null;
+
+      try {
+        await Promise.all(volumes.map((volume) => volume.done));
+      } catch (error) {
+        removePartials();
+        throw error;
+      }
+
+      const finalPaths = volumes.length === 1 ? [archivePath] : volumes.map((_, index) => partPath(index + 1));
+      volumes.forEach((volume, index) => fs.renameSync(volume.partialPath, finalPaths[index]!));
+      // Later volumes of an earlier, bigger archive of the same name would look like part of this one
+      for (let number = volumes.length === 1 ? 1 : volumes.length + 1; fs.existsSync(partPath(number)); number++) {
+        fs.unlinkSync(partPath(number));
+      }
+
+      const totalSize = volumes.reduce((total, volume) => total + volume.archive.pointer(), 0);
+
+      return { archivePath: finalPaths[0]!, volumes: finalPaths, totalSize, fileCount: added.size };
+    },
+    abort: () => {
+      for (const volume of volumes) {
+        volume.archive.abort();
+      }
+      removePartials();
+      current = null;
+    },
+  };
 }
 
 /**
- * Gets the total size of files in a directory
+ * Gets the total size of files in a directory and its subfolders, optionally only of the files a filter accepts
  */
-export function getDirectorySize(dirPath: string): number {
+export function getDirectorySize(dirPath: string, filter?: (filePath: string) => boolean): number {
   let totalSize = 0;
 
   if (!fs.existsSync(dirPath)) {
@@ -83,12 +210,78 @@ export function getDirectorySize(dirPath: string): number {
   
   for (const file of files) {
     const filePath = path.join(dirPath, file);
-    const stats = fs.statSync(filePath);
+    const stats = fs.statSync(filePath, { throwIfNoEntry: false });
     
-    if (stats.isFile()) {
+    // Files can disappear while a run is using the directory
+    if (stats?.isDirectory()) {
+      totalSize += getDirectorySize(filePath, filter);
+    } else if (stats?.isFile() && (!filter || filter(filePath))) {
       totalSize += stats.size;
     }
   }
 
   return totalSize;
 }
+
+// A ZIP archive opened to read its files one at a time
+export interface ZipReader {
+  // Names of the files in the archive, without folder entries
+  files: string[];
+  // Writes one file of the archive to a path
+  extract(name: string, destination: string): Promise<void>;
+  close(): void;
+}
+
+/**
+ * Opens a ZIP archive (ZIP64 included) and reads its central directory. Entries whose names
+ * would land outside a folder they are unpacked into are rejected by yauzl.
+ */
+export function openZipReader(zipPath: string): Promise<ZipReader> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (error, zipFile) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+
+      const entries = new Map<string, yauzl.Entry>();
+      zipFile.on('entry', (entry: yauzl.Entry) => {
+        if (!entry.fileName.endsWith('/')) {
+          entries.set(entry.fileName, entry);
+        }
+        zipFile.readEntry();
+      });
+      zipFile.on('error', (err: Error) => {
+        zipFile.close();
+        reject(err);
+      });
+      zipFile.on('end', () => {
+        resolve({
+          files: [...entries.keys()],
+          extract: async (name, destination) => {
+            const entry = entries.get(name);
+            if (!entry) {
+              throw new Error(`${name} is not in ${zipPath}`);
+            }
+            const input = await new Promise<Readable>((resolveStream, rejectStream) =>
+              zipFile.openReadStream(entry, (err, stream) => (err ? rejectStream(err) : resolveStream(stream)))
+            );
+            fs.mkdirSync(path.dirname(destination), { recursive: true });
+            await pipeline(input, fs.createWriteStream(destination));
+          },
+          close: () => zipFile.close(),
+        });
+      });
+      zipFile.readEntry();
+    });
+  });
+}
+
+/**
+ * Unpacks a tar or tar.gz archive into a folder. Entries that would land outside it are skipped,
+ * and a truncated or corrupt archive fails.
+ */
+export async function extractTar(archivePath: string, destination: string): Promise<void> {
+  fs.mkdirSync(destination, { recursive: true });
+  await tar.extract({ file: archivePath, cwd: destination, strict: true });
+}
@@ -6,6 +6,22 @@ export interface Song {
     duration: number;
     coverUrl?: string | undefined;
     downloadUrl?: string | undefined;
+    album?: string | undefined;
+    albumArtist?: string | undefined;
+    trackNumber?: number | undefined; // falls back to the playlist position
+    trackTotal?: number | undefined;
+    year?: number | undefined;
+    genre?: string | undefined;
+    chapters?: Chapter[] | undefined; // empty when the video has none, missing when the listing didn't say
+    sourceId?: string | undefined; // for a track cut from a longer video: that video's ID
+}
+
+// A section of a video, from its chapters or from a cue sheet or timestamp list
+export interface Chapter {
+    title: string;
+    start: number; // in seconds
+    end?: number | undefined; // the next chapter's start or the end of the video when missing
+    artist?: string | undefined; // cue sheet PERFORMER
 }
 
 // Playslist structure
@@ -16,20 +32,386 @@ export interface Playlist {
     totalCount: number;
 }
 
+// What a YouTube URL resolves to; id is stable across runs and keys manifests and run state
+export type YouTubeTarget =
+    | { kind: 'playlist'; id: string }
+    | { kind: 'video'; id: string }
+    | { kind: 'album'; id: string }
+    | { kind: 'channel'; id: string; path: string; tab: string };
+
+// Output audio formats
+export type AudioFormat = 'mp3' | 'opus' | 'm4a' | 'flac' | 'ogg';
+
+// Archive a download is packed into
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+// Audio encoding quality
+export interface AudioQuality {
+    // auto: format default, cbr: fixed bitrate, vbr: LAME VBR level, source: keep the original stream
+    mode: 'auto' | 'cbr' | 'vbr' | 'source';
+    bitrate?: number; // in kbps
+    vbrLevel?: number; // 0 (best) to 9 (smallest)
+    sampleRate?: number; // in Hz
+    channels?: number;
+    // Never encode above the bitrate of the downloaded source stream
+    capToSource?: boolean;
+}
+
+// Loudness normalization: loudnorm re-encodes every track to a target level, replaygain only adds gain tags
+export type LoudnessMode = 'loudnorm' | 'replaygain';
+
+// Loudness of a file as measured by FFmpeg's loudnorm filter (EBU R128)
+export interface LoudnessMeasurement {
+    integrated: number; // in LUFS
+    truePeak: number; // in dBTP
+    range: number; // loudness range in LU
+    threshold: number; // gating threshold in LUFS
+}
+
 // Download progress tracking
 export interface DownloadProgress {
     songId: string;
     title: string;
     status: 'pending' | 'downloading' | 'converting' | 'completed' | 'failed';
     progress: number;
+    downloadedBytes?: number | undefined;
+    totalBytes?: number | undefined;
     error?: string;
+    errorKind?: FailureKind | undefined;
+}
+
+// A playlist entry left out by the track selection
+export interface SkippedSong {
+    songId: string;
+    title: string;
+    reason: 'position' | 'title' | 'duration' | 'duplicate' | 'not-picked';
+}
+
+// Tags a track is written with; the same fields for every format
+export interface TrackTags {
+    title: string;
+    artist: string;
+    album?: string | undefined;
+    albumArtist?: string | undefined;
+    track?: string | undefined; // "n" or "n/total"
+    year?: number | undefined;
+    genre?: string | undefined;
+}
+
+// A track a dry run would download
+export interface PlannedTrack {
+    songId: string;
+    title: string;
+    path: string; // final file path; for a ZIP download, the path inside the archive
+    renamed: boolean; // the name clashed with an earlier file and gets the video ID appended
+    duration: number;
+    estimatedBytes: number; // 0 when the duration is unknown
+    tags?: TrackTags | undefined; // missing when tagging is turned off
+}
+
+// What a download or sync would do, worked out without downloading anything
+export interface PlaylistPlan {
+    command: 'download' | 'sync';
+    playlistId: string;
+    playlistName: string;
+    location: string; // ZIP file, sync folder, or the folder holding the tracks
+    zip: boolean; // tracks and playlist files are entries of the ZIP at location
+    audioFormat: AudioFormat;
+    tracks: PlannedTrack[];
+    skipped: SkippedSong[];
+    playlistFiles: string[]; // for a ZIP download, paths inside the archive
+    estimatedBytes: number;
+    unchanged?: number | undefined; // sync: tracks already in the folder
+    removed?: number | undefined; // sync: tracks no longer on the playlist
+    interruptedRun?: string | undefined; // temp dir a real download would resume instead
+}
+
+// Space a run needs on one filesystem, checked before downloading
+export interface SpaceNeed {
+    path: string; // temp dir or output dir on that filesystem
+    neededBytes: number;
+    freeBytes: number;
+}
+
+// Why a song failed; each kind has its own retry policy
+export type FailureKind =
+    | 'unavailable'
+    | 'private'
+    | 'age-restricted'
+    | 'geo-blocked'
+    | 'rate-limited'
+    | 'ffmpeg'
+    | 'corrupt' // the finished file failed verification
+    | 'network'
+    | 'unknown';
+
+// Outcome of one song in a run
+export interface SongResult {
+    song: Song;
+    filePath: string; // empty when the song did not finish
+    success: boolean;
+    cancelled?: boolean;
+    error?: string;
+    errorKind?: FailureKind | undefined;
+    loudness?: LoudnessMeasurement | undefined; // measured output, for ReplayGain tags
+}
+
+// A song that failed, as listed in events and summaries
+export interface SongFailure {
+    songId: string;
+    title: string;
+    kind: FailureKind;
+    error: string;
+}
+
+// Settings of the run that produced a failure, reused when retrying it
+export interface FailedRunSettings {
+    audioFormat: AudioFormat;
+    quality: AudioQuality;
+    filenameTemplate: string;
+    asciiFilenames: boolean;
+    metadata: boolean;
+    cleanTitles?: boolean | undefined;
+    titleNoise?: string[] | undefined;
+    normalize?: LoudnessMode | undefined;
+    loudnessTarget?: number | undefined;
+    split?: boolean | undefined;
+    splitFile?: string | undefined;
+    trimSilence?: boolean | undefined;
+    zip?: boolean | undefined; // download only
+    archiveFormat?: ArchiveFormat | undefined; // download only
+    folderTemplate?: string | undefined; // download only
+}
+
+// The failed songs of one playlist in a failed.json report
+export interface FailedPlaylist {
+    command: 'download' | 'sync';
+    url: string;
+    playlistId: string;
+    playlistName: string;
+    location: string | null; // ZIP, folder or sync folder; null when nothing was written
+    settings: FailedRunSettings;
+    failedAt: string;
+    songs: Array<{ id: string; title: string; artist: string; kind: FailureKind; error: string }>;
+}
+
+// failed.json in the output dir: the latest failures of every playlist downloaded there
+export interface FailedReport {
+    version: number;
+    updatedAt: string;
+    playlists: FailedPlaylist[];
 }
 
 // Final download result
 export interface DownloadResult {
+    playlistId: string;
     playlistName: string;
-    zipPath: string;
+    location: string; // the archive, the folder the files were moved to, or the temp dir of a cancelled run
+    zipPath: string | null; // the archive (ZIP or tar), or its first volume when it was split
+    volumes?: string[] | undefined; // every volume of a split archive
     successCount: number;
     failedCount: number;
+    cancelled: boolean;
     totalSize: number; // in MB
-}
\ No newline at end of file
+    songs: SongResult[];
+}
+
+// Final sync result
+export interface SyncResult {
+    playlistId: string;
+    playlistName: string;
+    folder: string;
+    addedCount: number;
+    removedCount: number;
+    failedCount: number;
+    trackCount: number;
+    cancelled: boolean;
+    songs: SongResult[];
+}
+
+// A file the verify command found broken
+export interface VerifyIssue {
+    file: string; // relative to the folder, or the path inside the archive
+    problems: string[];
+}
+
+// Result of auditing a download folder or ZIP
+export interface VerifyReport {
+    location: string;
+    source: 'manifest' | 'playlist' | 'files'; // where the list of expected tracks came from
+    checked: number;
+    ok: number;
+    bad: VerifyIssue[];
+    missing: string[]; // listed but not found
+}
+
+// Track entry in a playlist folder's download manifest
+export interface ManifestTrack {
+    id: string;
+    title: string;
+    artist: string;
+    file: string; // relative to the playlist folder
+    sourceId?: string | undefined; // video the track was cut from
+    duration?: number | undefined; // expected length in seconds, checked by verify
+    downloadedAt: string;
+}
+
+// Download manifest kept in a playlist folder for incremental syncs
+export interface PlaylistManifest {
+    version: number;
+    playlistId: string;
+    playlistName: string;
+    updatedAt: string;
+    tracks: ManifestTrack[];
+}
+
+// Outcome of one playlist in a batch run
+export interface BatchItemResult {
+    url: string;
+    status: 'completed' | 'failed' | 'cancelled';
+    playlistName?: string | undefined;
+    location?: string | undefined;
+    succeeded: number;
+    failed: number;
+    error?: string | undefined; // why the whole playlist failed
+}
+
+// Per-song job state persisted in a run's temp dir so interrupted runs can resume
+export type SongJobStatus = 'pending' | 'downloaded' | 'converted' | 'tagged' | 'failed';
+
+export interface SongJob {
+    id: string;
+    status: SongJobStatus;
+    error?: string;
+}
+
+// Everything needed to pick up an interrupted run
+export interface RunState {
+    version: number;
+    url: string;
+    playlistId: string;
+    playlist: Playlist;
+    audioFormat: AudioFormat;
+    quality: AudioQuality;
+    filenameTemplate: string;
+    asciiFilenames?: boolean | undefined;
+    normalize?: LoudnessMode | undefined;
+    loudnessTarget?: number | undefined;
+    split?: boolean | undefined;
+    splitFile?: string | undefined;
+    trimSilence?: boolean | undefined;
+    createdAt: string;
+    updatedAt: string;
+    songs: SongJob[];
+}
+
+// Options a client may set on a server job; output location and cookies are fixed by the server
+export interface JobRequest {
+    url: string;
+    audioFormat?: AudioFormat | undefined;
+    quality?: string | undefined; // same syntax as --quality
+    sampleRate?: number | undefined;
+    channels?: number | undefined;
+    smartBitrate?: boolean | undefined;
+    filenameTemplate?: string | undefined;
+    asciiFilenames?: boolean | undefined;
+    preferVideo?: boolean | undefined;
+    metadata?: boolean | undefined;
+    cleanTitles?: boolean | undefined;
+    titleNoise?: string[] | undefined;
+    xspf?: boolean | undefined;
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Latest state of one song in a server job
+export interface JobSong {
+    id: string;
+    title: string;
+    status: DownloadProgress['status'] | 'tagged';
+    progress: number;
+    error?: string | undefined;
+}
+
+// A download submitted to the server; the job history is persisted across restarts
+export interface Job {
+    id: string;
+    request: JobRequest;
+    status: JobStatus;
+    createdAt: string;
+    startedAt?: string | undefined;
+    finishedAt?: string | undefined;
+    playlistName?: string | undefined;
+    songs: JobSong[];
+    result?: DownloadResult | undefined;
+    error?: string | undefined;
+}
+
+// Progress events emitted by downloadPlaylist/syncPlaylist; --json writes one per line with an ISO timestamp added
+export type ProgressEvent =
+    | { type: 'target-resolved'; kind: YouTubeTarget['kind']; id: string }
+    | {
+        type: 'playlist-resolved';
+        playlistId: string;
+        kind: YouTubeTarget['kind'];
+        name: string;
+        uploader?: string | undefined;
+        totalCount: number;
+        resumed: boolean;
+        resumedSongs?: number | undefined; // songs already finished by the interrupted run
+    }
+    | { type: 'selection'; total: number; selected: number; skipped: SkippedSong[] }
+    | { type: 'sync-plan'; unchanged: number; added: number; removed: number }
+    | ({ type: 'plan' } & PlaylistPlan)
+    | {
+        type: 'downloads';
+        status: 'started' | 'completed';
+        count: number;
+        succeeded?: number | undefined;
+        failures?: SongFailure[] | undefined;
+    }
+    | {
+        type: 'song-state';
+        songId: string;
+        title: string;
+        status: DownloadProgress['status'] | 'tagged';
+        progress: number;
+        downloadedBytes?: number | undefined;
+        totalBytes?: number | undefined;
+        error?: string | undefined;
+        errorKind?: FailureKind | undefined;
+    }
+    | {
+        type: 'disk-space';
+        estimatedBytes: number; // tracks still to download
+        unknownDurations: number; // tracks without a known length, left out of the estimate
+        maxSize?: number | undefined;
+        filesystems: SpaceNeed[];
+    }
+    | { type: 'disk-space-stop'; reason: string; usedBytes: number; freeBytes: number }
+    | { type: 'split'; songId: string; title: string; tracks: number }
+    | { type: 'tagging'; status: 'started' | 'completed'; count: number }
+    | {
+        type: 'zip'; // any archive format
+        status: 'started' | 'completed';
+        path?: string;
+        size?: number;
+        fileCount?: number;
+        volumes?: string[] | undefined; // every volume when the archive was split
+    }
+    | {
+        type: 'summary';
+        command: 'download' | 'sync';
+        location: string;
+        succeeded: number;
+        failed: number;
+        cancelled: boolean;
+        tracks?: number | undefined; // sync: tracks in the folder after the sync
+        failures: SongFailure[];
+        report?: string | undefined; // failed.json listing the failures
+    }
+    | { type: 'verify'; file: string; problems: string[] }
+    | ({ type: 'verify-summary' } & VerifyReport)
+    | { type: 'batch-summary'; command: 'download' | 'sync' | 'retry-failed'; playlists: BatchItemResult[] }
+    | { type: 'log'; level: 'info' | 'success' | 'warn' | 'error'; message: string }
+    | { type: 'error'; message: string };
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+import { ConfigError, readConfigFile, resolveSettings, type ConfigFile } from './config.js';
+
+function configFile(filePath: string, settings: ConfigFile['settings'], profiles: ConfigFile['profiles'] = {}): ConfigFile {
+    return { path: filePath, settings, profiles };
+}
+
+describe('resolveSettings', () => {
+    const user = configFile('/home/me/.ytpldrc.json', { audioFormat: 'opus', concurrency: 3 }, {
+        archive: { audioFormat: 'flac', zip: false },
+        phone: { quality: '128k' },
+    });
+    const project = configFile('/work/.ytpldrc.json', { concurrency: 8, titleNoise: ['\\[Free\\]'] }, {
+        archive: { zip: true },
+    });
+
+    it('lets later files override earlier ones', () => {
+        assert.deepEqual(resolveSettings([user, project]), {
+            audioFormat: 'opus',
+            concurrency: 8,
+            titleNoise: ['\\[Free\\]'],
+        });
+    });
+
+    it('applies the profile of every file on top of the top-level settings', () => {
+        assert.deepEqual(resolveSettings([user, project], 'archive'), {
+            audioFormat: 'flac',
+            concurrency: 8,
+            titleNoise: ['\\[Free\\]'],
+            zip: true,
+        });
+    });
+
+    it('applies a profile defined in only one file', () => {
+        assert.equal(resolveSettings([user, project], 'phone').quality, '128k');
+    });
+
+    it('does not change the files it merges', () => {
+        resolveSettings([user, project], 'archive');
+        assert.deepEqual(user.settings, { audioFormat: 'opus', concurrency: 3 });
+    });
+
+    it('lists the available profiles when the profile is unknown', () => {
+        assert.throws(() => resolveSettings([user, project], 'car'), {
+            name: 'ConfigError',
+            message: 'Profile "car" not found; available profiles: archive, phone',
+        });
+    });
+
+    it('explains that no config file was found', () => {
+        assert.throws(() => resolveSettings([], 'archive'), (error) => error instanceof ConfigError && /no config file/.test(error.message));
+    });
+
+    it('returns no settings without files', () => {
+        assert.deepEqual(resolveSettings([]), {});
+    });
+});
+
+describe('readConfigFile', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ytpld-config-'));
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    const write = (name: string, content: string) => {
+        const filePath = path.join(dir, name);
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    };
+
+    it('resolves paths relative to the config file and splits off the profiles', () => {
+        const filePath = write('paths.json', JSON.stringify({
+            output: 'music',
+            quality: '192k',
+            profiles: { usb: { output: '/media/usb' } },
+        }));
+
+        assert.deepEqual(readConfigFile(filePath), {
+            path: filePath,
+            settings: { output: path.join(dir, 'music'), quality: '192k' },
+            profiles: { usb: { output: '/media/usb' } },
+        });
+    });
+
+    it('rejects values of the wrong type with the setting name', () => {
+        const filePath = write('bad.json', JSON.stringify({ concurrency: { max: 3 } }));
+        assert.throws(() => readConfigFile(filePath), { name: 'ConfigError', message: `${filePath}: "concurrency" must be a string, number, boolean or list of strings` });
+    });
+
+    it('rejects invalid JSON', () => {
+        const filePath = write('broken.json', '{ "zip": ');
+        assert.throws(() => readConfigFile(filePath), (error) => error instanceof ConfigError && error.message.startsWith(`Could not read config file ${filePath}`));
+    });
+});
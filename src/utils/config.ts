@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Config file names looked for in the home directory and then the working directory
+export const CONFIG_FILENAMES = ['.ytpldrc.json', 'ytpld.config.json'];
+
+// Settings holding paths; relative values are resolved from the config file's folder
+const PATH_SETTINGS = new Set(['output', 'tempDir', 'cookies', 'batchFile']);
+
+export type ConfigValue = string | number | boolean | string[];
+export type ConfigSettings = Record<string, ConfigValue>;
+
+// One parsed config file: top-level settings plus named profiles
+export interface ConfigFile {
+    path: string;
+    settings: ConfigSettings;
+    profiles: Record<string, ConfigSettings>;
+}
+
+// Error raised for unreadable or invalid config files; the message names the file and setting.
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+// Finds the user-level and project-level config files, user first so the project one wins.
+export function findConfigFiles(cwd: string = process.cwd(), home: string = os.homedir()): string[] {
+    const found: string[] = [];
+    for (const dir of [home, cwd]) {
+        const file = CONFIG_FILENAMES.map((name) => path.join(dir, name)).find((candidate) => fs.existsSync(candidate));
+        if (file && !found.includes(file)) {
+            found.push(file);
+        }
+    }
+    return found;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Checks the value types of one settings object and resolves its paths.
+function parseSettings(input: Record<string, unknown>, where: string, baseDir: string): ConfigSettings {
+    const settings: ConfigSettings = {};
+    for (const [key, value] of Object.entries(input)) {
+        if (Array.isArray(value) ? !value.every((item) => typeof item === 'string') : !['string', 'number', 'boolean'].includes(typeof value)) {
+            throw new ConfigError(`${where}: "${key}" must be a string, number, boolean or list of strings`);
+        }
+
+        if (PATH_SETTINGS.has(key) && typeof value === 'string') {
+            const expanded = value === '~' || value.startsWith('~/') ? path.join(os.homedir(), value.slice(1)) : value;
+            settings[key] = path.resolve(baseDir, expanded);
+        } else {
+            settings[key] = value as ConfigValue;
+        }
+    }
+    return settings;
+}
+
+// Reads and validates the structure of a config file.
+export function readConfigFile(filePath: string): ConfigFile {
+    let input: unknown;
+    try {
+        input = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        throw new ConfigError(`Could not read config file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!isPlainObject(input)) {
+        throw new ConfigError(`${filePath}: the config must be a JSON object`);
+    }
+
+    const { profiles = {}, ...settings } = input;
+    if (!isPlainObject(profiles)) {
+        throw new ConfigError(`${filePath}: "profiles" must be an object of named profiles`);
+    }
+
+    const baseDir = path.dirname(filePath);
+    const parsedProfiles: Record<string, ConfigSettings> = {};
+    for (const [name, profile] of Object.entries(profiles)) {
+        if (!isPlainObject(profile)) {
+            throw new ConfigError(`${filePath}: profile "${name}" must be an object of settings`);
+        }
+        parsedProfiles[name] = parseSettings(profile, `${filePath} (profile "${name}")`, baseDir);
+    }
+
+    return { path: filePath, settings: parseSettings(settings, filePath, baseDir), profiles: parsedProfiles };
+}
+
+// Merges config files in order and applies the named profile on top of their top-level settings.
+export function resolveSettings(files: ConfigFile[], profile?: string): ConfigSettings {
+    const settings: ConfigSettings = Object.assign({}, ...files.map((file) => file.settings));
+    if (!profile) {
+        return settings;
+    }
+
+    const matches = files.filter((file) => file.profiles[profile]);
+    if (matches.length === 0) {
+        const available = [...new Set(files.flatMap((file) => Object.keys(file.profiles)))];
+        throw new ConfigError(
+            files.length === 0
+                ? `Profile "${profile}" not found: no config file (${CONFIG_FILENAMES.join(' or ')}) in the home or current directory`
+                : `Profile "${profile}" not found${available.length > 0 ? `; available profiles: ${available.join(', ')}` : ''}`
+        );
+    }
+
+    return Object.assign(settings, ...matches.map((file) => file.profiles[profile]));
+}
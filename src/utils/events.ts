@@ -0,0 +1,7 @@
+import type { ProgressEvent } from '../types/index.js';
+
+// Writes one event as a single JSON line on stdout for --json consumers.
+// Batch runs tag each line with the URL of the playlist it belongs to.
+export function writeEvent(event: ProgressEvent, url?: string): void {
+    process.stdout.write(`${JSON.stringify({ timestamp: new Date().toISOString(), ...(url ? { url } : {}), ...event })}\n`);
+}
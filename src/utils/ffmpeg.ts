@@ -0,0 +1,57 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegStatic from 'ffmpeg-static';
+import ffprobeInstaller from '@ffprobe-installer/ffprobe';
+
+// Set FFmpeg/FFprobe paths once for every module that converts, probes or tags audio
+if (ffmpegStatic) {
+    ffmpeg.setFfmpegPath(ffmpegStatic as unknown as string);
+}
+ffmpeg.setFfprobePath(ffprobeInstaller.path);
+
+export interface AudioStreamInfo {
+    codec: string;
+    bitrate: number | null; // in kbps
+    sampleRate: number | null;
+    channels: number | null;
+    duration: number | null; // in seconds
+    tags: Record<string, string>; // container and stream tags, keys in lower case
+}
+
+// Reads the first audio stream of a file with FFprobe.
+export function probeAudio(filePath: string): Promise<AudioStreamInfo> {
+    return new Promise((resolve, reject) => {
+        ffmpeg.ffprobe(filePath, (err, data) => {
+            if (err) {
+                reject(err);
+                return;
+            }
+
+            const stream = data.streams.find((s) => s.codec_type === 'audio');
+            if (!stream) {
+                reject(new Error(`No audio stream found in ${filePath}`));
+                return;
+            }
+
+            // WebM/Opus streams rarely report a stream bitrate; fall back to the container's
+            const bitRate = Number(stream.bit_rate) || Number(data.format.bit_rate) || 0;
+            const duration = Number(stream.duration) || Number(data.format.duration) || 0;
+
+            // MP3, M4A and FLAC keep tags on the container, Ogg and Opus on the stream
+            const tags: Record<string, string> = {};
+            for (const [key, value] of Object.entries({ ...data.format.tags, ...stream.tags })) {
+                tags[key.toLowerCase()] = String(value);
+            }
+
+            resolve({
+                codec: stream.codec_name ?? 'unknown',
+                bitrate: bitRate > 0 ? Math.round(bitRate / 1000) : null,
+                sampleRate: Number(stream.sample_rate) || null,
+                channels: stream.channels ?? null,
+                duration: duration > 0 ? duration : null,
+                tags,
+            });
+        });
+    });
+}
+
+export { ffmpeg };
@@ -1,38 +1,22 @@
-import type { Ora } from "ora";
-export class Logger {
-    private spinner: Ora | null = null;
-
-    setSpinner(spinner: Ora) {
-        this.spinner = spinner;
-    }
-
-    clearSpinner() {
-        this.spinner = null;
-    }
-
-    log(message: string) {
-        if (this.spinner) {
-            this.spinner.text = message;
-        } else {
-            console.log(message);
-        }
-    }
-
-    success(message: string) {
-        console.log(`✓ ${message}`);
-    }
-
-    error(message: string) {
-        console.error(`✗ ${message}`);
-    }
-
-    warn(message: string) {
-        console.warn(`⚠ ${message}`);
-    }
+export type LogLevel = 'info' | 'success' | 'warn' | 'error';
+
+// Where library code sends its messages; runs turn them into "log" events and the CLI prints those
+export interface Logger {
+    info(message: string): void;
+    success(message: string): void;
+    warn(message: string): void;
+    error(message: string): void;
+}
 
-    info(message: string) {
-        console.info(`ℹ ${message}`);
-    }
+// Builds a logger out of one function that takes the level
+export function createLogger(write: (level: LogLevel, message: string) => void): Logger {
+    return {
+        info: (message) => write('info', message),
+        success: (message) => write('success', message),
+        warn: (message) => write('warn', message),
+        error: (message) => write('error', message),
+    };
 }
 
-export const logger = new Logger();
\ No newline at end of file
+// Drops every message; the default for code called without a logger
+export const silentLogger: Logger = createLogger(() => {});
@@ -0,0 +1,93 @@
+import readline from 'readline';
+
+const HELP_LINE = 'space: toggle  a: all/none  ↑/↓: move  enter: confirm  esc: cancel';
+
+// Shows a checklist in the terminal, every item checked, and resolves with the checked items in order.
+// Rejects when the user cancels or when there is no interactive terminal.
+export function pickItems<T>(items: T[], label: (item: T, index: number) => string, title: string): Promise<T[]> {
+    const input = process.stdin;
+    const output = process.stdout;
+    if (!input.isTTY || !output.isTTY) {
+        return Promise.reject(new Error('The track picker needs an interactive terminal'));
+    }
+
+    const checked = items.map(() => true);
+    let cursor = 0;
+    let offset = 0;
+    let renderedLines = 0;
+
+    const render = () => {
+        // Keep the cursor inside the visible window of a long list
+        const pageSize = Math.min(items.length, Math.max(5, (output.rows || 24) - 4));
+        if (cursor < offset) {
+            offset = cursor;
+        } else if (cursor >= offset + pageSize) {
+            offset = cursor - pageSize + 1;
+        }
+
+        const width = Math.max(20, (output.columns || 80) - 1);
+        const rows = items.slice(offset, offset + pageSize).map((item, row) => {
+            const index = offset + row;
+            return `${index === cursor ? '❯' : ' '} ${checked[index] ? '◉' : '◯'} ${label(item, index)}`;
+        });
+        const lines = [`${title} (${checked.filter(Boolean).length}/${items.length} selected)`, ...rows, HELP_LINE];
+
+        if (renderedLines > 0) {
+            output.write(`\x1b[${renderedLines}A`);
+        }
+        output.write(`\x1b[0J${lines.map((line) => line.slice(0, width)).join('\n')}\n`);
+        renderedLines = lines.length;
+    };
+
+    return new Promise((resolve, reject) => {
+        const wasRaw = input.isRaw;
+
+        const finish = (result: T[] | null) => {
+            input.off('keypress', onKeypress);
+            input.setRawMode(wasRaw);
+            input.pause();
+            if (result) {
+                resolve(result);
+            } else {
+                reject(new Error('Track selection cancelled'));
+            }
+        };
+
+        const onKeypress = (_text: string, key: readline.Key | undefined) => {
+            if (!key) {
+                return;
+            }
+            if ((key.ctrl && key.name === 'c') || key.name === 'escape' || key.name === 'q') {
+                finish(null);
+                return;
+            }
+
+            switch (key.name) {
+                case 'return':
+                    finish(items.filter((_, index) => checked[index]));
+                    return;
+                case 'up':
+                case 'k':
+                    cursor = (cursor - 1 + items.length) % items.length;
+                    break;
+                case 'down':
+                case 'j':
+                    cursor = (cursor + 1) % items.length;
+                    break;
+                case 'space':
+                    checked[cursor] = !checked[cursor];
+                    break;
+                case 'a':
+                    checked.fill(!checked.every(Boolean));
+                    break;
+            }
+            render();
+        };
+
+        readline.emitKeypressEvents(input);
+        input.setRawMode(true);
+        input.resume();
+        input.on('keypress', onKeypress);
+        render();
+    });
+}
@@ -0,0 +1,119 @@
+import { spawn } from 'child_process';
+
+// Error raised when a spawned process exits unsuccessfully; keeps stderr for diagnostics.
+export class ProcessError extends Error {
+    constructor(
+        message: string,
+        public readonly stderr: string,
+        public readonly exitCode: number | null
+    ) {
+        super(message);
+        this.name = 'ProcessError';
+    }
+}
+
+export interface RunProcessOptions {
+    onStdoutLine?: (line: string) => void;
+    onStderrLine?: (line: string) => void;
+    timeout?: number;
+    signal?: AbortSignal | undefined;
+}
+
+export interface RunProcessResult {
+    stdout: string;
+    stderr: string;
+}
+
+// Splits a stream of chunks into lines and forwards each complete line.
+function lineSplitter(onLine: (line: string) => void): (chunk: string) => void {
+    let buffer = '';
+    return (chunk: string) => {
+        buffer += chunk;
+        const lines = buffer.split(/\r?\n|\r/);
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.length > 0) {
+                onLine(line);
+            }
+        }
+    };
+}
+
+// Spawns a process without blocking the event loop and resolves with its output once it exits cleanly.
+export function runProcess(
+    command: string,
+    args: string[],
+    options: RunProcessOptions = {}
+): Promise<RunProcessResult> {
+    const { onStdoutLine, onStderrLine, timeout, signal } = options;
+
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new ProcessError(`${command} was cancelled`, '', null));
+            return;
+        }
+
+        const child = spawn(command, args, { windowsHide: true });
+        const stdoutChunks: string[] = [];
+        const stderrChunks: string[] = [];
+        const stdoutLines = onStdoutLine ? lineSplitter(onStdoutLine) : null;
+        const stderrLines = onStderrLine ? lineSplitter(onStderrLine) : null;
+        let timedOut = false;
+        let cancelled = false;
+
+        const onAbort = () => {
+            cancelled = true;
+            child.kill();
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        const timer = timeout
+            ? setTimeout(() => {
+                timedOut = true;
+                child.kill();
+            }, timeout)
+            : null;
+
+        child.stdout.setEncoding('utf-8');
+        child.stderr.setEncoding('utf-8');
+
+        child.stdout.on('data', (chunk: string) => {
+            stdoutChunks.push(chunk);
+            stdoutLines?.(chunk);
+        });
+
+        child.stderr.on('data', (chunk: string) => {
+            stderrChunks.push(chunk);
+            stderrLines?.(chunk);
+        });
+
+        child.on('error', (err) => {
+            if (timer) clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            reject(new ProcessError(`Failed to start ${command}: ${err.message}`, '', null));
+        });
+
+        child.on('close', (code) => {
+            if (timer) clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            const stdout = stdoutChunks.join('');
+            const stderr = stderrChunks.join('');
+
+            if (cancelled) {
+                reject(new ProcessError(`${command} was cancelled`, stderr, code));
+            } else if (timedOut) {
+                reject(new ProcessError(`${command} timed out after ${timeout}ms`, stderr, code));
+            } else if (code !== 0) {
+                const detail = stderr.trim() || `exit code ${code}`;
+                reject(new ProcessError(`${command} failed: ${detail}`, stderr, code));
+            } else {
+                resolve({ stdout, stderr });
+            }
+        });
+    });
+}
+
+// Runs yt-dlp through the Python launcher, the same way the rest of the tool invokes it.
+export function runYtDlp(args: string[], options: RunProcessOptions = {}): Promise<RunProcessResult> {
+    return runProcess('py', ['-m', 'yt_dlp', ...args], options);
+}
@@ -0,0 +1,86 @@
+import path from 'path';
+import { sanitizeFilename, type SanitizeOptions } from './validator.js';
+import type { Song } from '../types/index.js';
+
+export const DEFAULT_FILENAME_TEMPLATE = '{artist} - {title}';
+export const DEFAULT_FOLDER_TEMPLATE = '{playlist}';
+
+export const TEMPLATE_PLACEHOLDERS = [
+    'artist',
+    'album',
+    'album_artist',
+    'track',
+    'title',
+    'playlist',
+    'id',
+    'year',
+    'genre',
+] as const;
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+export type TemplateValues = Partial<Record<TemplatePlaceholder, string | number | undefined>>;
+
+// {name} or {name:02} (zero-padded to two digits)
+const PLACEHOLDER_PATTERN = /\{([a-z_]+)(?::(0?)(\d+))?\}/g;
+
+// Checks a template for unknown placeholders so mistakes fail before any download.
+export function validateTemplate(template: string, optionName: string): void {
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+        const name = match[1] as TemplatePlaceholder;
+        if (!TEMPLATE_PLACEHOLDERS.includes(name)) {
+            throw new Error(
+                `Unknown placeholder {${match[1]}} in ${optionName}. Available: ${TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(', ')}`
+            );
+        }
+    }
+
+    if (path.isAbsolute(template) || template.split('/').includes('..')) {
+        throw new Error(`${optionName} must be a relative path without "..": ${template}`);
+    }
+}
+
+// Collects the placeholder values for a song.
+export function songTemplateValues(song: Song, playlistName: string): TemplateValues {
+    return {
+        artist: song.artist,
+        album: song.album ?? playlistName,
+        album_artist: song.albumArtist ?? song.artist,
+        track: song.trackNumber,
+        title: song.title,
+        playlist: playlistName,
+        id: song.id,
+        year: song.year,
+        genre: song.genre,
+    };
+}
+
+// Renders one path segment; every placeholder value goes through sanitizeFilename.
+function renderSegment(segment: string, values: TemplateValues, sanitize: SanitizeOptions): string {
+    const rendered = segment.replace(PLACEHOLDER_PATTERN, (_match, name: TemplatePlaceholder, zero: string, width: string) => {
+        const value = values[name];
+        if (value === undefined || value === '') {
+            return '';
+        }
+
+        const text = sanitizeFilename(`${value}`, sanitize);
+        return width ? text.padStart(parseInt(width, 10), zero ? '0' : ' ') : text;
+    });
+
+    // Tidy up around placeholders that had no value, e.g. "Album ()" or " - Title"
+    return sanitizeFilename(
+        rendered
+            .replace(/\(\s*\)|\[\s*\]/g, '')
+            .replace(/^[\s\-–—_.]+|[\s\-–—_]+$/g, ''),
+        sanitize
+    );
+}
+
+// Renders a template into a relative path; "/" separates folders.
+export function renderTemplate(template: string, values: TemplateValues, sanitize: SanitizeOptions = {}): string {
+    const segments = template
+        .split('/')
+        .map((segment) => renderSegment(segment, values, sanitize))
+        .filter((segment) => segment.length > 0);
+
+    return segments.length > 0 ? path.join(...segments) : sanitizeFilename(`${values.id ?? 'untitled'}`, sanitize);
+}
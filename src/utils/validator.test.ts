@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractChannel, extractVideoId, parseYouTubeUrl } from './validator.js';
+
+describe('parseYouTubeUrl', () => {
+    it('resolves videos, playlists, albums and channels', () => {
+        assert.deepEqual(parseYouTubeUrl('https://youtu.be/dQw4w9WgXcQ?si=abc'), { kind: 'video', id: 'dQw4w9WgXcQ' });
+        assert.deepEqual(parseYouTubeUrl('https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PL123', true), { kind: 'video', id: 'dQw4w9WgXcQ' });
+        assert.deepEqual(parseYouTubeUrl('https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PL123'), { kind: 'playlist', id: 'PL123' });
+        assert.deepEqual(parseYouTubeUrl('https://music.youtube.com/browse/MPREb_abc'), { kind: 'album', id: 'MPREb_abc' });
+        assert.deepEqual(parseYouTubeUrl('https://www.youtube.com/@some.band-official/releases'), {
+            kind: 'channel',
+            id: '@some.band-official/releases',
+            path: '@some.band-official',
+            tab: 'releases',
+        });
+    });
+});
+
+describe('extractVideoId', () => {
+    it('only accepts 11-character IDs', () => {
+        assert.equal(extractVideoId('https://www.youtube.com/watch?v=dQw4w9WgXcQ#t=10'), 'dQw4w9WgXcQ');
+        assert.equal(extractVideoId('https://youtu.be/short'), null);
+        assert.equal(extractVideoId('https://youtu.be/dQw4w9WgXcQX'), null);
+    });
+
+    it('rejects shell metacharacters', () => {
+        for (const url of ['https://youtu.be/x";touch /tmp/pwn;"', 'https://youtu.be/dQw4w9WgXcQ";id;"', 'https://www.youtube.com/watch?v=$(id)abcdefg']) {
+            assert.equal(extractVideoId(url), null, url);
+            assert.equal(parseYouTubeUrl(url), null, url);
+        }
+    });
+});
+
+describe('extractChannel', () => {
+    it('rejects handles with characters outside [\\w.-]', () => {
+        assert.equal(extractChannel('https://www.youtube.com/@name";touch /tmp/pwn;"'), null);
+        assert.equal(extractChannel('https://www.youtube.com/channel/UC`id`'), null);
+        assert.deepEqual(extractChannel('https://www.youtube.com/channel/UCabc_123?si=x'), { path: 'channel/UCabc_123', tab: null });
+    });
+});
@@ -1,11 +1,16 @@
+import path from 'path';
+import anyAscii from 'any-ascii';
+import type { YouTubeTarget } from '../types/index.js';
+
 //  Validates if the given string is a valid YouTube video URL.
 export function isValidYouTubeUrl(url: string): boolean {
     const youtubePatterns = [
             /(?:https?:)?\/\/(?:www\.)?youtube\.com\/playlist\?list=/i,
-            /(?:https?:)?\/\/(?:www\.)?youtube\.com\/watch\?v=/i,
+            /(?:https?:)?\/\/(?:www\.|music\.)?youtube\.com\/watch\?v=/i,
             /(?:https?:)?\/\/music\.youtube\.com\/playlist\?list=/i,
             /(?:https?:)?\/\/music\.youtube\.com\/browse\//i,
             /(?:https?:)?\/\/youtu\.be\//i,
+            /(?:https?:)?\/\/(?:www\.|music\.)?youtube\.com\/(?:channel\/|c\/|user\/|@)/i,
     ];
 
     return youtubePatterns.some(pattern => pattern.test(url));
@@ -14,23 +19,145 @@ export function isValidYouTubeUrl(url: string): boolean {
 
 // Extracts playslist ID from a valid YouTube playlist URL.
 export function extractPlaylistId(url: string): string | null {
-    const match = url.match(/[?&]list=([a-zA-Z0-9_-]+)/);
+    const match = url.match(/[?&]list=([a-zA-Z0-9_-]+)(?=[&#]|$)/);
     return match?.[1] ?? null;
 }
 
 
-// Extracts video ID from a valid YouTube video URL.
+// Extracts video ID from a valid YouTube video URL; IDs are always 11 characters of [A-Za-z0-9_-].
 export function extractVideoId(url: string): string | null {
-    const match = url.match(/(?:youtube\.com\/watch\?v=|youtube\.com\/.*[?&]v=|youtu\.be\/)([^&\n?#]+)/);
+    const match = url.match(/(?:youtube\.com\/watch\?v=|youtube\.com\/.*[?&]v=|youtu\.be\/)([A-Za-z0-9_-]{11})(?=[&?#/]|$)/);
     return match?.[1] ?? null;
 }
 
-// Validates if the given string is a valid file name (no illegal characters).
-export function sanitizeFilename(fileName: string): string {
-    return fileName
+// Extracts the album browse ID from a YouTube Music browse URL.
+export function extractBrowseId(url: string): string | null {
+    const match = url.match(/music\.youtube\.com\/browse\/([a-zA-Z0-9_-]+)(?=[/?#]|$)/);
+    return match?.[1] ?? null;
+}
+
+
+// Extracts the channel path (e.g. "@name", "channel/UC...") and optional tab from a channel URL.
+export function extractChannel(url: string): { path: string; tab: string | null } | null {
+    const match = url.match(/youtube\.com\/((?:channel\/|c\/|user\/)[\w.-]+|@[\w.-]+)(?:\/([a-z]+))?(?=[/?#]|$)/i);
+    if (!match?.[1]) {
+        return null;
+    }
+    return { path: match[1], tab: match[2]?.toLowerCase() ?? null };
+}
+
+
+// Works out what a YouTube URL points at. With both a video and a list, preferVideo picks the video.
+export function parseYouTubeUrl(url: string, preferVideo = false): YouTubeTarget | null {
+    const listId = extractPlaylistId(url);
+    const videoId = extractVideoId(url);
+
+    if (videoId && (preferVideo || !listId)) {
+        return { kind: 'video', id: videoId };
+    }
+
+    if (listId) {
+        return { kind: 'playlist', id: listId };
+    }
+
+    const browseId = extractBrowseId(url);
+    if (browseId) {
+        return { kind: 'album', id: browseId };
+    }
+
+    const channel = extractChannel(url);
+    if (channel) {
+        // Channels without an explicit tab resolve to their uploads
+        const tab = channel.tab ?? 'videos';
+        return { kind: 'channel', id: `${channel.path}/${tab}`, path: channel.path, tab };
+    }
+
+    return null;
+}
+
+// Device names Windows refuses as file names, with or without an extension.
+const WINDOWS_RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+// Most file systems cap a single name at 255 bytes; leave room for extensions and collision suffixes.
+export const MAX_FILENAME_BYTES = 200;
+
+// Budget for a whole output path, kept under the Windows 260-character limit.
+export const MAX_PATH_BYTES = 240;
+
+export interface SanitizeOptions {
+    // Transliterate to plain ASCII ("Beyoncé" -> "Beyonce", "Кино" -> "Kino")
+    ascii?: boolean;
+    maxBytes?: number;
+}
+
+// Truncates a string to a UTF-8 byte length without splitting a character.
+export function truncateUtf8(value: string, maxBytes: number): string {
+    if (Buffer.byteLength(value, 'utf-8') <= maxBytes) {
+        return value;
+    }
+
+    let result = '';
+    let bytes = 0;
+    for (const char of value) {
+        const charBytes = Buffer.byteLength(char, 'utf-8');
+        if (bytes + charBytes > maxBytes) {
+            break;
+        }
+        result += char;
+        bytes += charBytes;
+    }
+    return result;
+}
+
+// Makes a string safe to use as a file or folder name on Windows, macOS and Linux.
+export function sanitizeFilename(fileName: string, options: SanitizeOptions = {}): string {
+    const { ascii = false, maxBytes = MAX_FILENAME_BYTES } = options;
+
+    // NFC keeps names byte-identical whether they came from macOS (NFD) or elsewhere
+    let name = fileName.normalize('NFC');
+    if (ascii) {
+        name = anyAscii(name);
+    }
+
+    name = name
+        .replace(/[\u0000-\u001f\u007f]/g, '')
         .replace(/[\/\\?%*:|"<>]/g, '')
         .replace(/\s+/g, ' ')
-        .trim()
-        .slice(0, 200);
+        .trim();
+
+    // Windows silently drops trailing dots and spaces
+    name = truncateUtf8(name, maxBytes).replace(/[. ]+$/, '');
+
+    // "CON" and "con.mp3" become "CON_" and "con_.mp3"
+    if (WINDOWS_RESERVED_NAMES.test(name)) {
+        name = name.replace(/^[^.]+/, (device) => `${device}_`);
+    }
+
+    return name;
+}
+
+// Shortens the last segment of a relative path so baseDir + path + reserveBytes fits within maxBytes.
+export function fitPathLength(
+    relativePath: string,
+    baseDir: string,
+    reserveBytes: number,
+    maxBytes: number = MAX_PATH_BYTES
+): string {
+    const fullBytes = Buffer.byteLength(path.join(baseDir, relativePath), 'utf-8') + reserveBytes;
+    if (fullBytes <= maxBytes) {
+        return relativePath;
+    }
+
+    const dir = path.dirname(relativePath);
+    const name = path.basename(relativePath);
+    // Never shrink a name below a readable minimum, even if the base directory is very deep
+    const nameBytes = Math.max(16, Buffer.byteLength(name, 'utf-8') - (fullBytes - maxBytes));
+    const shortened = truncateUtf8(name, nameBytes).replace(/[. ]+$/, '');
+
+    return dir === '.' ? shortened : path.join(dir, shortened);
 }
 
+// Key used to detect names that collide on case-insensitive (Windows, macOS) file systems.
+export function filenameKey(relativePath: string): string {
+    return relativePath.normalize('NFC').toLowerCase();
+}